@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { HashRouter, Routes, Route, Link, useNavigate, useLocation } from 'react-router-dom';
+import React, { useState, useEffect, useLayoutEffect, useMemo, useCallback, useContext, createContext, useRef } from 'react';
+import { HashRouter, Routes, Route, Link, useNavigate, useLocation, useParams, useSearchParams } from 'react-router-dom';
 import { 
   Leaf, 
   PlayCircle, 
@@ -11,8 +11,8 @@ import {
   CloudSun, 
   Cloud, 
   ChevronRight, 
+  ChevronLeft,
   Eye, 
-  EyeOff, 
   CheckCircle, 
   XCircle,
   Clock,
@@ -20,21 +20,120 @@ import {
   X,
   Camera,
   Upload,
-  RefreshCw,
-  Database
+  Database,
+  AlertTriangle,
+  Plus,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Undo2,
+  FileDown,
+  FileUp,
+  HardDrive,
+  Users,
+  UserPlus,
+  Lock,
+  ClipboardList,
+  Printer,
+  ChevronDown,
+  DownloadCloud,
+  WifiOff,
+  SkipForward,
+  RotateCcw,
+  Check,
+  Images,
+  Pause,
+  Play,
+  SlidersHorizontal,
+  Link2
 } from 'lucide-react';
-import { Plant, LightRequirement, UserProgress, QuizQuestion, StudySession } from './types';
-import { PLANT_DATABASE } from './constants';
+import { Plant, PlantCare, LightRequirement, PlantEnvironment, Toxicity, WateringFrequency, UserProgress, UserProfile, QuizQuestion, StudySession, ReviewGrade, QuizDifficulty, CyclePresetId, CatalogItem, CatalogRecord, PhotoLabel, PlantPhoto, PlantPhotoInfo, PlantPhotoThumbnail } from './types';
+import { PLANT_DATABASE, QUESTION_TYPE_LABELS, DIFFICULTY_LABELS, CARE_FIELD_LABELS, CYCLE_PRESET_LABELS, DEFAULT_PROFILE_NAME, PHOTO_LABELS, getImg } from './constants';
+import {
+  PlantImage, StorageUsage, STORAGE_WARNING_RATIO, createPhotoId, getPlantImages, groupPhotosByPlant, compressImage, createThumbnail,
+  blobToDataUrl, dataUrlToBlob, getStorageUsage, getUsageRatio, hasRealPhoto, hasRoomFor, formatBytes
+} from './photos';
+import { applyReview, gradeFromQuizCredit, selectPlantsForCycle } from './srs';
+import { getAccuracyByCategory, getAccuracyByType, getMostMissedPlants, getProgressPoints, getStudiedPlantIds } from './stats';
+import { ALL_QUESTION_TYPES, DAILY_QUIZ_CONFIG, QuizConfig, buildRetryQuiz, generateQuiz, getQuizScope } from './quizEngine';
+import { TypedAnswerResult, gradeTypedAnswer } from './answerMatching';
+import { PlantDraft, createPlantId, getActivePlants, isCustomPlantId, mergeCatalog, pickPlantCare, trimPlantDraft, validatePlantDraft } from './catalog';
+import {
+  CatalogFileEntry,
+  ImportRowResult,
+  buildCatalogFileEntries,
+  exportCatalogCsv,
+  exportCatalogJson,
+  isEntryUnchanged,
+  validateCsvImport,
+  validateJsonImport
+} from './catalogIO';
+import { BackupFile, BackupPayload, RestoreMode, createBackup, findMatchingProfile, isProfileLike, mergeCatalogRecords, mergeProgress, parseBackup } from './backup';
+import { HashAlgorithm, canUseSha256, hashText } from './utils';
+import { TeamMember, buildTeamReport, exportTeamReportCsv, isInactiveFor } from './reports';
+import { parseStoredProgress, readProgress, serializeProgress } from './storage';
+import { cacheImagesForOffline, getOfflineImageUrls, isOfflineSupported } from './pwa';
+import { formatDateKey, getCurrentStreak, getTodayKey, registerActivity } from './dates';
+import {
+  DEFAULT_PLANT_FILTERS,
+  PhotoFilter,
+  PlantFilters,
+  PlantSort,
+  PlantStudyState,
+  StudyStatusFilter,
+  countActiveFilters,
+  filterPlants,
+  parsePlantFilters,
+  writePlantFilters
+} from './plantFilters';
+import {
+  CUSTOM_CYCLE_LIMITS,
+  CYCLE_PRESETS,
+  CycleSettings,
+  SavedCycle,
+  clampCycleSettings,
+  createTimer,
+  formatCountdown,
+  getCardFront,
+  getRemainingMs,
+  isTimerPaused,
+  keepAvailablePlants,
+  parseSavedCycle,
+  pauseTimer,
+  resumeTimer,
+  summarizeCycle
+} from './studyCycle';
+import { WeeklyLeaderboard, createHttpSyncBackend, enqueueUpload, fetchLeaderboardWithCache, flushSyncQueue, getPendingUploads } from './sync';
 
 // --- Services & Helpers ---
 
-const PROGRESS_KEY = 'oliveira_garden_progress_v1';
+const PROGRESS_KEY = 'oliveira_garden_progress_v1'; // Suffixed with ":<profileId>" since profiles exist
+const PROFILES_KEY = 'oliveira_garden_profiles_v1';
+const ACTIVE_PROFILE_KEY = 'oliveira_garden_active_profile_v1';
+const MAX_ANSWER_HISTORY = 2000; // Keeps localStorage usage bounded
 const OLD_CUSTOM_IMAGES_KEY = 'oliveira_garden_custom_images_v1'; // Keeping for migration
+const SETTINGS_KEY_PREFIX = 'oliveira_garden_setting_'; // Every key with this prefix goes into backups
+const OFFLINE_IMAGES_KEY = 'oliveira_garden_offline_images_v1'; // Per device, so not a backed-up setting
+const CYCLE_KEY = 'oliveira_garden_cycle_v1'; // Cycle in progress, suffixed with ":<profileId>"; per device
+const CUSTOM_CYCLE_KEY = `${SETTINGS_KEY_PREFIX}custom_cycle`;
+
+// Leaderboard sync is off unless the build points to a backend (see server/leaderboard.mjs)
+const syncBackend = import.meta.env.VITE_SYNC_URL ? createHttpSyncBackend(import.meta.env.VITE_SYNC_URL) : null;
 
 // --- IndexedDB Configuration ---
 const DB_NAME = 'OliveiraGardenDB';
-const STORE_NAME = 'custom_images';
-const DB_VERSION = 1;
+const LEGACY_IMAGE_STORE_NAME = 'custom_images'; // one photo per plant, moved into PHOTO_STORE_NAME by version 3
+const CATALOG_STORE_NAME = 'custom_plants';
+const PHOTO_STORE_NAME = 'plant_photos'; // details and thumbnail of each photo
+const PHOTO_BLOB_STORE_NAME = 'plant_photo_blobs'; // full-size images, read only when shown
+const DB_VERSION = 4;
+
+// Records written before version 4 hold a PlantPhoto (data URL) instead; see loadStoredPhotos
+interface StoredPhoto extends PlantPhotoInfo {
+  thumbnail: Blob;
+  size: number; // bytes of the full image plus thumbnail
+}
 
 // IDB Helper Functions
 const initDB = (): Promise<IDBDatabase> => {
@@ -44,169 +143,661 @@ const initDB = (): Promise<IDBDatabase> => {
     request.onsuccess = () => resolve(request.result);
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+      if (!db.objectStoreNames.contains(CATALOG_STORE_NAME)) {
+        db.createObjectStore(CATALOG_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(PHOTO_BLOB_STORE_NAME)) {
+        db.createObjectStore(PHOTO_BLOB_STORE_NAME);
+      }
+      if (!db.objectStoreNames.contains(PHOTO_STORE_NAME)) {
+        const photoStore = db.createObjectStore(PHOTO_STORE_NAME);
+        // Each plant's single photo becomes its first photo, inside the same upgrade transaction
+        if (db.objectStoreNames.contains(LEGACY_IMAGE_STORE_NAME)) {
+          const cursorRequest = request.transaction!.objectStore(LEGACY_IMAGE_STORE_NAME).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+              const plantId = String(cursor.key);
+              const photo: PlantPhoto = { id: `${plantId}:legacy`, plantId, label: 'GERAL', dataUrl: cursor.value, createdAt: '' };
+              photoStore.put(photo, photo.id);
+              cursor.continue();
+            } else {
+              db.deleteObjectStore(LEGACY_IMAGE_STORE_NAME);
+            }
+          };
+        }
       }
     };
   });
 };
 
-const getAllStoredImages = async (): Promise<Record<string, string>> => {
-  try {
-    const db = await initDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.openCursor();
-      const images: Record<string, string> = {};
-      
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          images[cursor.key as string] = cursor.value;
-          cursor.continue();
-        } else {
-          resolve(images);
-        }
-      };
-      request.onerror = () => reject(request.error);
-    });
-  } catch (e) {
-    console.error("Error accessing IndexedDB:", e);
-    return {};
-  }
+// Rejects when IndexedDB is unavailable (e.g. private browsing on some tablets); callers report it
+const getAllFromStore = async <T,>(storeName: string): Promise<Record<string, T>> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
+    const request = store.openCursor();
+    const values: Record<string, T> = {};
+    
+    request.onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest).result;
+      if (cursor) {
+        values[cursor.key as string] = cursor.value;
+        cursor.continue();
+      } else {
+        resolve(values);
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getFromStore = async <T,>(storeName: string, key: string): Promise<T | undefined> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
 };
 
-const storeImageInDB = async (id: string, dataUrl: string): Promise<void> => {
+const putInStore = async (storeName: string, key: string, value: unknown): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(dataUrl, id);
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.put(value, key);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
-const deleteImageFromDB = async (id: string): Promise<void> => {
+// Empties the stores and fills them with `contents` in one transaction, so a failure leaves all of them as they were
+const replaceStores = async (contents: Record<string, Record<string, unknown>>): Promise<void> => {
   const db = await initDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(id);
+    const transaction = db.transaction(Object.keys(contents), 'readwrite');
+    Object.entries(contents).forEach(([storeName, values]) => {
+      const store = transaction.objectStore(storeName);
+      store.clear();
+      Object.entries(values).forEach(([key, value]) => store.put(value, key));
+    });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const deleteFromStore = async (storeName: string, key: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.delete(key);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 };
 
-const getInitialProgress = (): UserProgress => {
-  const stored = localStorage.getItem(PROGRESS_KEY);
-  if (stored) return JSON.parse(stored);
+const preparePhoto = async (info: PlantPhotoInfo, image: Blob): Promise<StoredPhoto> => {
+  const thumbnail = await createThumbnail(image);
+  return { ...info, thumbnail, size: image.size + thumbnail.size };
+};
+
+const storePhotoInDB = async (info: PlantPhotoInfo, image: Blob): Promise<StoredPhoto> => {
+  const photo = await preparePhoto(info, image);
+  await putInStore(PHOTO_BLOB_STORE_NAME, info.id, image);
+  await putInStore(PHOTO_STORE_NAME, info.id, photo);
+  return photo;
+};
+
+const deletePhotoFromDB = async (photoId: string) => {
+  await deleteFromStore(PHOTO_STORE_NAME, photoId);
+  await deleteFromStore(PHOTO_BLOB_STORE_NAME, photoId);
+};
+
+const getFullPhoto = (photoId: string) => getFromStore<Blob>(PHOTO_BLOB_STORE_NAME, photoId);
+
+// Only details and thumbnails are read here; photos still saved as data URLs are converted once
+const loadStoredPhotos = async (): Promise<StoredPhoto[]> => {
+  const records = Object.values(await getAllFromStore<StoredPhoto | PlantPhoto>(PHOTO_STORE_NAME));
+  const photos: StoredPhoto[] = [];
+  for (const record of records) {
+    if (!('dataUrl' in record)) {
+      photos.push(record);
+      continue;
+    }
+    const { dataUrl, ...info } = record;
+    try {
+      photos.push(await storePhotoInDB(info, await dataUrlToBlob(dataUrl)));
+    } catch (e) {
+      console.error(`Error converting photo ${record.id}`, e);
+    }
+  }
+  return photos;
+};
+
+const importPhoto = (photo: PlantPhoto) => {
+  const { dataUrl, ...info } = photo;
+  return dataUrlToBlob(dataUrl).then(image => storePhotoInDB(info, image));
+};
+
+const exportPhotos = async (photos: StoredPhoto[]): Promise<PlantPhoto[]> => {
+  const exported: PlantPhoto[] = [];
+  for (const { thumbnail, size, ...info } of photos) {
+    const image = await getFullPhoto(info.id);
+    if (image) exported.push({ ...info, dataUrl: await blobToDataUrl(image) });
+  }
+  return exported;
+};
+
+const createPhotoInfo = (plantId: string, label: PhotoLabel = 'GERAL'): PlantPhotoInfo => ({
+  id: createPhotoId(plantId),
+  plantId,
+  label,
+  createdAt: new Date().toISOString()
+});
+
+// Thumbnails stay available as object URLs for the whole visit; they are small and shared by every screen
+const thumbnailUrls = new Map<string, string>();
+
+const toPhotoThumbnail = ({ thumbnail, size, ...info }: StoredPhoto): PlantPhotoThumbnail => {
+  let url = thumbnailUrls.get(info.id);
+  if (!url) {
+    url = URL.createObjectURL(thumbnail);
+    thumbnailUrls.set(info.id, url);
+  }
+  return { ...info, thumbnailUrl: url };
+};
+
+const releaseThumbnailUrl = (photoId: string) => {
+  const url = thumbnailUrls.get(photoId);
+  if (url) URL.revokeObjectURL(url);
+  thumbnailUrls.delete(photoId);
+};
+
+// --- Profiles (shared tablet) ---
+
+const getProgressKey = (profileId: string) => `${PROGRESS_KEY}:${profileId}`;
+
+const createProfileId = () => `profile-${Date.now().toString(36)}-${Math.floor(Math.random() * 36 ** 4).toString(36)}`;
+
+const saveProfiles = (profiles: UserProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+// Unreadable entries are dropped; as with progress, the damaged original is kept aside
+const readStoredProfiles = (): UserProfile[] => {
+  const stored = localStorage.getItem(PROFILES_KEY);
+  if (!stored) return [];
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    // Handled below like any other damaged list
+  }
+  const profiles = Array.isArray(parsed) ? parsed.filter(isProfileLike) : [];
+  if (!Array.isArray(parsed) || profiles.length < parsed.length) {
+    console.warn('Stored profiles were repaired');
+    localStorage.setItem(`${PROFILES_KEY}:corrupt`, stored);
+    if (profiles.length > 0) saveProfiles(profiles);
+  }
+  return profiles;
+};
+
+const loadProfiles = (): UserProfile[] => {
+  const profiles = readStoredProfiles();
+  if (profiles.length > 0) return profiles;
+
+  // First run with profiles: progress saved before profiles existed becomes the first profile
+  const profile: UserProfile = { id: createProfileId(), name: DEFAULT_PROFILE_NAME, pinHash: null, createdAt: new Date().toISOString() };
+  const legacyProgress = localStorage.getItem(PROGRESS_KEY);
+  if (legacyProgress) {
+    localStorage.setItem(getProgressKey(profile.id), legacyProgress);
+    localStorage.removeItem(PROGRESS_KEY);
+  }
+  saveProfiles([profile]);
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  return [profile];
+};
+
+const getActiveProfileId = (): string => {
+  const profiles = loadProfiles();
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  return profiles.some(p => p.id === activeId) ? (activeId as string) : profiles[0].id;
+};
+
+const hashPin = async (profileId: string, pin: string) => {
+  const algorithm: HashAlgorithm = canUseSha256() ? 'SHA-256' : 'FNV-1a';
+  return `${algorithm}:${await hashText(`${profileId}:${pin}`, algorithm)}`;
+};
+
+const verifyPin = async (profile: UserProfile, pin: string) => {
+  if (!profile.pinHash) return true;
+  const [algorithm, hash] = profile.pinHash.split(':');
+  return (await hashText(`${profile.id}:${pin}`, algorithm as HashAlgorithm)) === hash;
+};
+
+const getInitialProgress = (profileId: string = getActiveProfileId()): UserProgress => {
+  const key = getProgressKey(profileId);
+  const stored = localStorage.getItem(key);
+  const { progress, status, problems } = parseStoredProgress(stored);
+  if (stored !== null && (status === 'REPAIRED' || status === 'RESET')) {
+    // The damaged original is kept aside so a bad repair never loses data for good
+    console.warn(`Progress of profile ${profileId} was ${status.toLowerCase()}`, problems);
+    localStorage.setItem(`${key}:corrupt`, stored);
+  }
+  // Upgraded or repaired data is written back so this only happens once
+  if (status === 'MIGRATED' || status === 'REPAIRED' || status === 'RESET') {
+    localStorage.setItem(key, serializeProgress(progress));
+  }
+  return progress;
+};
+
+// Saved progress is queued for the leaderboard and sent whenever the device is online
+const queueProgressSync = (progress: UserProgress, profileId: string) => {
+  const profile = loadProfiles().find(p => p.id === profileId);
+  if (!syncBackend || !profile) return;
+  enqueueUpload({ userId: profile.id, name: profile.name, sessions: progress.history, uploadedAt: new Date().toISOString() });
+  if (navigator.onLine) flushSyncQueue(syncBackend);
+};
+
+const saveProgress = (progress: UserProgress, profileId: string = getActiveProfileId()) => {
+  localStorage.setItem(getProgressKey(profileId), serializeProgress(progress));
+};
+
+// The leaderboard only sees sessions, which change when a cycle or quiz ends or a backup
+// is restored; the saves after every quiz answer stay on the device
+const saveProgressAndSync = (progress: UserProgress, profileId: string = getActiveProfileId()) => {
+  saveProgress(progress, profileId);
+  queueProgressSync(progress, profileId);
+};
+
+const getCycleKey = (profileId: string) => `${CYCLE_KEY}:${profileId}`;
+
+const loadSavedCycle = (profileId: string) => parseSavedCycle(localStorage.getItem(getCycleKey(profileId)));
+
+const saveCycle = (cycle: SavedCycle | null, profileId: string) => {
+  if (cycle) localStorage.setItem(getCycleKey(profileId), JSON.stringify(cycle));
+  else localStorage.removeItem(getCycleKey(profileId));
+};
+
+const loadCustomCycleSettings = (): CycleSettings => {
+  try {
+    const stored = localStorage.getItem(CUSTOM_CYCLE_KEY);
+    if (stored) return clampCycleSettings(JSON.parse(stored));
+  } catch (e) {
+    console.warn('Ignoring unreadable custom cycle settings', e);
+  }
+  return CYCLE_PRESETS.BREAK;
+};
+
+const downloadFile = (filename: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+
+// Stores the answer in the history and updates the spaced-repetition schedule of the plant
+const recordQuizAnswer = (question: QuizQuestion, chosenOption: string, credit: number) => {
+  const progress = getInitialProgress();
+  const isCorrect = credit >= 1;
+  const { plantId } = question;
+  saveProgress({
+    ...progress,
+    reviews: {
+      ...progress.reviews,
+      [plantId]: applyReview(progress.reviews[plantId], plantId, gradeFromQuizCredit(credit), getTodayKey())
+    },
+    answers: [
+      ...progress.answers,
+      {
+        plantId,
+        questionType: question.type,
+        chosenOption,
+        correctAnswer: question.correctAnswer,
+        isCorrect,
+        credit,
+        timestamp: new Date().toISOString()
+      }
+    ].slice(-MAX_ANSWER_HISTORY)
+  });
+};
+
+const readSettings = (): Record<string, string> => {
+  const settings: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(SETTINGS_KEY_PREFIX)) settings[key] = localStorage.getItem(key) || '';
+  }
+  return settings;
+};
+
+const collectBackupPayload = async (): Promise<BackupPayload> => {
+  const profiles = loadProfiles();
   return {
-    plantsStudiedCount: 0,
-    lastStudyDate: null,
-    streakDays: 0,
-    quizTotalQuestions: 0,
-    quizCorrectAnswers: 0,
-    history: []
+    profiles,
+    progressByProfile: Object.fromEntries(profiles.map(p => [p.id, getInitialProgress(p.id)])),
+    plantPhotos: await exportPhotos(await loadStoredPhotos()),
+    catalogRecords: await getAllFromStore<CatalogRecord>(CATALOG_STORE_NAME),
+    settings: readSettings()
   };
 };
 
-const saveProgress = (progress: UserProgress) => {
-  localStorage.setItem(PROGRESS_KEY, JSON.stringify(progress));
+const restoreBackup = async ({ payload }: BackupFile, mode: RestoreMode) => {
+  if (mode === 'REPLACE') {
+    // Every photo is decoded before anything is deleted, so a broken one leaves the device as it was
+    const photos: Record<string, StoredPhoto> = {};
+    const images: Record<string, Blob> = {};
+    for (const { dataUrl, ...info } of payload.plantPhotos) {
+      images[info.id] = await dataUrlToBlob(dataUrl);
+      photos[info.id] = await preparePhoto(info, images[info.id]);
+    }
+    await replaceStores({ [PHOTO_STORE_NAME]: photos, [PHOTO_BLOB_STORE_NAME]: images, [CATALOG_STORE_NAME]: payload.catalogRecords });
+
+    Object.keys(readSettings()).forEach(key => localStorage.removeItem(key));
+    // A cycle in progress points at plants and progress that are being replaced
+    loadProfiles().forEach(p => {
+      localStorage.removeItem(getProgressKey(p.id));
+      saveCycle(null, p.id);
+    });
+    saveProfiles(payload.profiles);
+    payload.profiles.forEach(p => saveProgressAndSync(readProgress(payload.progressByProfile[p.id]).progress, p.id));
+  } else {
+    const profiles = loadProfiles();
+    payload.profiles.forEach(incoming => {
+      const incomingProgress = readProgress(payload.progressByProfile[incoming.id]).progress;
+      const match = findMatchingProfile(profiles, incoming);
+      if (match) {
+        saveProgressAndSync(mergeProgress(getInitialProgress(match.id), incomingProgress), match.id);
+      } else {
+        profiles.push(incoming);
+        saveProfiles(profiles);
+        saveProgressAndSync(incomingProgress, incoming.id);
+      }
+    });
+    saveProfiles(profiles);
+    // Photos already on this device are kept; only missing ones are added. The same photo keeps
+    // its id across devices, so full images are only read to compare photos whose details match
+    const currentPhotos = await loadStoredPhotos();
+    const currentIds = new Set(currentPhotos.map(p => p.id));
+    for (const photo of payload.plantPhotos) {
+      if (currentIds.has(photo.id)) continue;
+      const lookalikes = currentPhotos.filter(p => p.plantId === photo.plantId && p.label === photo.label && p.createdAt === photo.createdAt);
+      if ((await exportPhotos(lookalikes)).some(p => p.dataUrl === photo.dataUrl)) continue;
+      await importPhoto(photo);
+    }
+    const currentRecords = await getAllFromStore<CatalogRecord>(CATALOG_STORE_NAME);
+    const mergedRecords = mergeCatalogRecords(currentRecords, payload.catalogRecords);
+    for (const [id, record] of Object.entries(mergedRecords)) {
+      if (record !== currentRecords[id]) await putInStore(CATALOG_STORE_NAME, id, record);
+    }
+  }
+  Object.entries(payload.settings).forEach(([key, value]) => {
+    if (key.startsWith(SETTINGS_KEY_PREFIX)) localStorage.setItem(key, value);
+  });
 };
 
-// Helper to compress images before saving to avoid Storage quotas (even IDB has limits, though higher)
-const compressImage = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = (event) => {
-      const img = new Image();
-      img.src = event.target?.result as string;
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        const MAX_WIDTH = 800; // Increased quality slightly for IDB
-        const scaleSize = MAX_WIDTH / img.width;
-        
-        // Only resize if bigger than max width
-        if (scaleSize < 1) {
-             canvas.width = MAX_WIDTH;
-             canvas.height = img.height * scaleSize;
-        } else {
-             canvas.width = img.width;
-             canvas.height = img.height;
-        }
+// --- Profile Context ---
+
+interface ProfileContextValue {
+  profiles: UserProfile[];
+  activeProfile: UserProfile;
+  switchProfile: (profile: UserProfile, pin?: string) => Promise<boolean>;
+  createProfile: (name: string, pin?: string) => Promise<void>;
+  reloadProfiles: () => void;
+}
+
+const ProfileContext = createContext<ProfileContextValue | null>(null);
+
+const ProfileProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>(loadProfiles);
+  const [activeId, setActiveId] = useState<string>(getActiveProfileId);
+
+  const activeProfile = profiles.find(p => p.id === activeId) || profiles[0];
+
+  const activate = (id: string) => {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    setActiveId(id);
+  };
+
+  const switchProfile = async (profile: UserProfile, pin = '') => {
+    if (!(await verifyPin(profile, pin))) return false;
+    activate(profile.id);
+    return true;
+  };
 
-        const ctx = canvas.getContext('2d');
-        ctx?.drawImage(img, 0, 0, canvas.width, canvas.height);
-        // Compress to JPEG quality 0.75
-        resolve(canvas.toDataURL('image/jpeg', 0.75));
-      };
-      img.onerror = (err) => reject(err);
+  const createProfile = async (name: string, pin = '') => {
+    const id = createProfileId();
+    const profile: UserProfile = {
+      id,
+      name: name.trim(),
+      pinHash: pin ? await hashPin(id, pin) : null,
+      createdAt: new Date().toISOString()
     };
-    reader.onerror = (error) => reject(error);
-  });
+    const updated = [...loadProfiles(), profile];
+    saveProfiles(updated);
+    setProfiles(updated);
+    activate(id);
+  };
+
+  // After a backup restore the stored profiles may have changed underneath us
+  const reloadProfiles = () => {
+    setProfiles(loadProfiles());
+    setActiveId(getActiveProfileId());
+  };
+
+  return (
+    <ProfileContext.Provider value={{ profiles, activeProfile, switchProfile, createProfile, reloadProfiles }}>
+      {children}
+    </ProfileContext.Provider>
+  );
 };
 
-// Hook to manage plant database with custom overrides via IndexedDB
-const usePlantDatabase = () => {
-  const [plants, setPlants] = useState<Plant[]>(PLANT_DATABASE);
-  const [customImages, setCustomImages] = useState<Record<string, string>>({});
+const useProfiles = () => {
+  const context = useContext(ProfileContext);
+  if (!context) throw new Error('useProfiles must be used inside ProfileProvider');
+  return context;
+};
+
+// --- Plant Database Context ---
+
+interface PlantDatabaseValue {
+  plants: Plant[]; // active plants, with the photos taken in the app
+  catalog: CatalogItem[];
+  photos: StoredPhoto[];
+  photosByPlant: Record<string, StoredPhoto[]>;
+  addPlantPhoto: (plantId: string, file: File, label?: PhotoLabel) => Promise<boolean>;
+  removePlantPhoto: (photoId: string) => Promise<void>;
+  exportMainPhotos: () => Promise<Record<string, string>>;
+  savePlant: (plantId: string | null, draft: PlantDraft) => Promise<string | null>;
+  setPlantRetired: (plantId: string, retired: boolean) => Promise<void>;
+  removeCatalogRecord: (plantId: string) => Promise<void>;
+  importCatalogEntries: (entries: CatalogFileEntry[]) => Promise<boolean>;
+  reloadDatabase: () => Promise<void>;
+  isLoadingImages: boolean;
+  loadError: string | null;
+}
+
+const PlantDatabaseContext = createContext<PlantDatabaseValue | null>(null);
+
+// Catalog changes and photos are read from IndexedDB once for the whole app, so switching pages
+// is instant and a change made on one page shows up everywhere
+const PlantDatabaseProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [photos, setPhotos] = useState<StoredPhoto[]>([]);
+  const [catalogRecords, setCatalogRecords] = useState<Record<string, CatalogRecord>>({});
   const [isLoadingImages, setIsLoadingImages] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
-  // Load images from IDB on mount
-  useEffect(() => {
-    const loadImages = async () => {
-      try {
-        // 1. Try to migrate old localStorage images if they exist
-        const oldStorage = localStorage.getItem(OLD_CUSTOM_IMAGES_KEY);
-        let migratedImages = {};
-        if (oldStorage) {
-          try {
-             migratedImages = JSON.parse(oldStorage);
-             console.log("Migrating images from LocalStorage to IndexedDB...");
-             for (const [id, url] of Object.entries(migratedImages)) {
-               await storeImageInDB(id, url as string);
-             }
-             // Clear old storage after successful migration loop start (safest to keep until confirmed but for now we just clear to free space)
-             localStorage.removeItem(OLD_CUSTOM_IMAGES_KEY);
-          } catch (e) {
-            console.error("Migration failed", e);
-          }
-        }
+  const catalog = useMemo(() => mergeCatalog(PLANT_DATABASE, catalogRecords), [catalogRecords]);
+  const photosByPlant = useMemo(() => groupPhotosByPlant(photos), [photos]);
 
-        // 2. Load from IDB
-        const dbImages = await getAllStoredImages();
-        setCustomImages(dbImages);
-      } catch (error) {
-        console.error("Failed to load images from DB", error);
-      } finally {
-        setIsLoadingImages(false);
+  // Also called after a backup restore, which rewrites the stores underneath us
+  const reloadDatabase = useCallback(async () => {
+    setIsLoadingImages(true);
+    setLoadError(null);
+    try {
+      // 1. Try to migrate old localStorage images if they exist
+      const oldStorage = localStorage.getItem(OLD_CUSTOM_IMAGES_KEY);
+      let migratedImages = {};
+      if (oldStorage) {
+        try {
+           migratedImages = JSON.parse(oldStorage);
+           console.log("Migrating images from LocalStorage to IndexedDB...");
+           for (const [id, url] of Object.entries(migratedImages)) {
+             await importPhoto({ ...createPhotoInfo(id), dataUrl: url as string });
+           }
+           // Clear old storage after successful migration loop start (safest to keep until confirmed but for now we just clear to free space)
+           localStorage.removeItem(OLD_CUSTOM_IMAGES_KEY);
+        } catch (e) {
+          console.error("Migration failed", e);
+        }
       }
-    };
 
-    loadImages();
+      // 2. Load from IDB
+      const [dbPhotos, dbRecords] = await Promise.all([
+        loadStoredPhotos(),
+        getAllFromStore<CatalogRecord>(CATALOG_STORE_NAME)
+      ]);
+      setPhotos(dbPhotos);
+      setCatalogRecords(dbRecords);
+    } catch (error) {
+      console.error("Failed to load images from DB", error);
+      setLoadError("Não foi possível ler as fotos e as alterações do catálogo salvas neste aparelho.");
+    } finally {
+      setIsLoadingImages(false);
+    }
   }, []);
 
   useEffect(() => {
-    // Merge base database with custom images
-    const mergedPlants = PLANT_DATABASE.map(p => ({
-      ...p,
-      imageUrl: customImages[p.id] || p.imageUrl
-    }));
-    setPlants(mergedPlants);
-  }, [customImages]);
-
-  const updatePlantImage = async (plantId: string, file: File) => {
+    reloadDatabase();
+  }, [reloadDatabase]);
+
+  // Merge catalog (built-in + editor changes) with the photos taken in the app
+  const plants = useMemo(() => getActivePlants(catalog).map(p => {
+    const plantPhotos = photosByPlant[p.id]?.map(toPhotoThumbnail);
+    return { ...p, imageUrl: plantPhotos ? plantPhotos[0].thumbnailUrl : p.imageUrl, photos: plantPhotos };
+  }), [catalog, photosByPlant]);
+
+  const writeCatalogRecord = async (record: CatalogRecord) => {
+    await putInStore(CATALOG_STORE_NAME, record.plant.id, record);
+    setCatalogRecords(prev => ({ ...prev, [record.plant.id]: record }));
+  };
+
+  // Creates a custom plant when `plantId` is null, otherwise saves the edit over the existing one
+  const savePlant = async (plantId: string | null, draft: PlantDraft) => {
     try {
-      const base64Image = await compressImage(file);
-      await storeImageInDB(plantId, base64Image);
-      
-      setCustomImages(prev => ({
-        ...prev,
-        [plantId]: base64Image
-      }));
+      const existing = plantId ? catalog.find(item => item.plant.id === plantId) : undefined;
+      const id = existing ? existing.plant.id : createPlantId(new Set(catalog.map(item => item.plant.id)));
+      const { imageUrl, ...fields } = trimPlantDraft(draft);
+      await writeCatalogRecord({
+        plant: { ...fields, id, imageUrl: imageUrl || existing?.plant.imageUrl || getImg(fields.commonName, id) },
+        isCustom: existing ? existing.isCustom : true,
+        retired: existing ? existing.retired : false,
+        updatedAt: new Date().toISOString()
+      });
+      return id;
+    } catch (e) {
+      console.error("Error saving plant", e);
+      alert("Erro ao salvar planta. Tente novamente.");
+      return null;
+    }
+  };
+
+  const setPlantRetired = async (plantId: string, retired: boolean) => {
+    const item = catalog.find(i => i.plant.id === plantId);
+    if (!item) return;
+    try {
+      await writeCatalogRecord({ plant: item.plant, isCustom: item.isCustom, retired, updatedAt: new Date().toISOString() });
+    } catch (e) {
+      console.error("Error updating plant", e);
+    }
+  };
+
+  // Saves validated import rows in one go: plant data in the catalog store, embedded photos in the image store
+  const importCatalogEntries = async (entries: CatalogFileEntry[]) => {
+    const knownIds = new Set(catalog.map(item => item.plant.id));
+    const records: Record<string, CatalogRecord> = {};
+    const addedPhotos: StoredPhoto[] = [];
+    try {
+      for (const entry of entries) {
+        const existing = entry.id ? catalog.find(item => item.plant.id === entry.id) : undefined;
+        const id = entry.id || createPlantId(knownIds);
+        knownIds.add(id);
+        const { imageUrl, ...draftFields } = trimPlantDraft(entry);
+        // Files exported before the care guide existed leave it out; the plant keeps what it had
+        const care = { ...pickPlantCare(existing?.plant || {}), ...pickPlantCare(draftFields) };
+        const fields = { ...draftFields, ...care };
+        // An exported photo that is already on this device is not added twice
+        if (entry.customImage) {
+          const current = await exportPhotos(photosByPlant[id] || []);
+          if (!current.some(p => p.dataUrl === entry.customImage)) {
+            addedPhotos.push(await importPhoto({ ...createPhotoInfo(id), dataUrl: entry.customImage }));
+          }
+        }
+        if (existing && isEntryUnchanged(existing, entry)) continue;
+
+        const record: CatalogRecord = {
+          plant: {
+            id,
+            commonName: fields.commonName,
+            scientificName: fields.scientificName,
+            light: fields.light,
+            category: fields.category,
+            trivia: fields.trivia,
+            ...care,
+            imageUrl: imageUrl || existing?.plant.imageUrl || getImg(fields.commonName, id)
+          },
+          isCustom: existing ? existing.isCustom : true,
+          retired: !!entry.retired,
+          updatedAt: new Date().toISOString()
+        };
+        await putInStore(CATALOG_STORE_NAME, id, record);
+        records[id] = record;
+      }
+      return true;
+    } catch (e) {
+      console.error("Error importing catalog", e);
+      alert("Erro ao importar. Parte das plantas pode não ter sido salva.");
+      return false;
+    } finally {
+      setCatalogRecords(prev => ({ ...prev, ...records }));
+      setPhotos(prev => [...prev, ...addedPhotos]);
+    }
+  };
+
+  // Deletes a custom plant for good, or reverts a built-in plant to its original data
+  const removeCatalogRecord = async (plantId: string) => {
+    try {
+      await deleteFromStore(CATALOG_STORE_NAME, plantId);
+      setCatalogRecords(prev => {
+        const next = { ...prev };
+        delete next[plantId];
+        return next;
+      });
+      if (isCustomPlantId(plantId)) await removeAllPlantPhotos(plantId);
+    } catch (e) {
+      console.error("Error removing plant", e);
+    }
+  };
+
+  const addPlantPhoto = async (plantId: string, file: File, label: PhotoLabel = 'GERAL') => {
+    try {
+      const image = await compressImage(file);
+      // Refused before the device is full, so progress and the other photos can still be saved
+      const storage = await getStorageUsage();
+      if (storage && !hasRoomFor(storage, image.size * 2)) {
+        alert("Pouco espaço livre neste aparelho. Libere espaço em Backup > Espaço no aparelho antes de adicionar fotos.");
+        return false;
+      }
+      const photo = await storePhotoInDB(createPhotoInfo(plantId, label), image);
+      setPhotos(prev => [...prev, photo]);
       return true;
     } catch (e) {
       console.error("Error saving image", e);
@@ -215,25 +806,57 @@ const usePlantDatabase = () => {
     }
   };
 
-  const resetImage = async (plantId: string) => {
+  const removePlantPhoto = async (photoId: string) => {
     try {
-      await deleteImageFromDB(plantId);
-      const newCustomImages = { ...customImages };
-      delete newCustomImages[plantId];
-      setCustomImages(newCustomImages);
+      await deletePhotoFromDB(photoId);
+      releaseThumbnailUrl(photoId);
+      setPhotos(prev => prev.filter(p => p.id !== photoId));
     } catch (e) {
       console.error("Error deleting image", e);
     }
   };
 
-  return { plants, updatePlantImage, resetImage, isLoadingImages };
+  const removeAllPlantPhotos = async (plantId: string) => {
+    for (const photo of photosByPlant[plantId] || []) await removePlantPhoto(photo.id);
+  };
+
+  // Full-size first photo of each plant, for catalog exports with embedded images
+  const exportMainPhotos = async (): Promise<Record<string, string>> => {
+    const exported = await exportPhotos(Object.values(photosByPlant).map(list => list[0]));
+    return Object.fromEntries(exported.map(photo => [photo.plantId, photo.dataUrl]));
+  };
+
+  const value: PlantDatabaseValue = {
+    plants,
+    catalog,
+    photos,
+    photosByPlant,
+    addPlantPhoto,
+    removePlantPhoto,
+    exportMainPhotos,
+    savePlant,
+    setPlantRetired,
+    removeCatalogRecord,
+    importCatalogEntries,
+    reloadDatabase,
+    isLoadingImages,
+    loadError
+  };
+
+  return (
+    <PlantDatabaseContext.Provider value={value}>
+      {children}
+    </PlantDatabaseContext.Provider>
+  );
 };
 
-const getRandomPlantsFromList = (sourcePlants: Plant[], count: number): Plant[] => {
-  const shuffled = [...sourcePlants].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, count);
+const usePlantDatabase = () => {
+  const context = useContext(PlantDatabaseContext);
+  if (!context) throw new Error('usePlantDatabase must be used inside PlantDatabaseProvider');
+  return context;
 };
 
+
 // --- Components ---
 
 const LightBadge = ({ type }: { type: LightRequirement }) => {
@@ -249,25 +872,185 @@ const LightBadge = ({ type }: { type: LightRequirement }) => {
   }
 };
 
+// Care guide for answering customers; only the fields filled in for this plant are listed
+const CareGuide = ({ plant }: { plant: Plant }) => {
+  const fields = (Object.keys(CARE_FIELD_LABELS) as (keyof PlantCare)[]).filter(field => plant[field]);
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="bg-emerald-50 p-4 rounded-xl border border-emerald-100">
+      <h4 className="font-bold text-emerald-800 mb-2">Guia de cuidados</h4>
+      <dl className="space-y-2 text-sm">
+        {fields.map(field => (
+          <div key={field}>
+            <dt className="text-emerald-700 font-semibold">{CARE_FIELD_LABELS[field]}</dt>
+            <dd className={field === 'toxicity' && plant.toxicity === Toxicity.TOXIC ? 'text-red-700 font-semibold' : 'text-gray-700'}>
+              {plant[field]}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+};
+
+const ProfileSwitcher = ({ onClose }: { onClose: () => void }) => {
+  const { profiles, activeProfile, switchProfile, createProfile } = useProfiles();
+  const [pinFor, setPinFor] = useState<UserProfile | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+
+  const resetForms = () => {
+    setPinFor(null);
+    setIsCreating(false);
+    setName('');
+    setPin('');
+    setError('');
+  };
+
+  const handleSelect = async (profile: UserProfile) => {
+    if (profile.id === activeProfile.id) return onClose();
+    if (profile.pinHash) {
+      resetForms();
+      setPinFor(profile);
+      return;
+    }
+    await switchProfile(profile);
+    onClose();
+  };
+
+  const handlePinSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pinFor) return;
+    if (await switchProfile(pinFor, pin)) onClose();
+    else setError('PIN incorreto.');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return setError('Informe um nome.');
+    if (profiles.some(p => p.name.trim().toLocaleLowerCase('pt-BR') === trimmed.toLocaleLowerCase('pt-BR'))) {
+      return setError('Já existe um perfil com esse nome.');
+    }
+    if (pin && !/^\d{4,8}$/.test(pin)) return setError('O PIN deve ter de 4 a 8 números.');
+    await createProfile(trimmed, pin);
+    onClose();
+  };
+
+  return (
+    <div className="absolute right-4 top-1 w-72 bg-white text-gray-800 rounded-xl shadow-lg border border-gray-100 p-3 space-y-2">
+      <p className="text-xs font-semibold text-gray-500 uppercase tracking-wide px-1">Quem está estudando?</p>
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => handleSelect(profile)}
+            className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-left text-sm ${profile.id === activeProfile.id ? 'bg-emerald-50 text-emerald-800 font-semibold' : 'hover:bg-gray-50'}`}
+          >
+            <span className="truncate">{profile.name}</span>
+            {profile.pinHash && <Lock size={14} className="text-gray-400 flex-shrink-0" />}
+          </button>
+        ))}
+      </div>
+
+      {pinFor && (
+        <form onSubmit={handlePinSubmit} className="space-y-2 border-t border-gray-100 pt-2">
+          <label className="block text-sm text-gray-600">PIN de <strong>{pinFor.name}</strong></label>
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={e => setPin(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <button type="submit" className="w-full py-2 bg-emerald-600 text-white rounded-lg font-semibold hover:bg-emerald-700">Entrar</button>
+        </form>
+      )}
+
+      {isCreating ? (
+        <form onSubmit={handleCreate} className="space-y-2 border-t border-gray-100 pt-2">
+          <input
+            type="text"
+            placeholder="Nome"
+            autoFocus
+            value={name}
+            onChange={e => setName(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            placeholder="PIN (opcional)"
+            value={pin}
+            onChange={e => setPin(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 outline-none"
+          />
+          <button type="submit" className="w-full py-2 bg-emerald-600 text-white rounded-lg font-semibold hover:bg-emerald-700">Criar perfil</button>
+        </form>
+      ) : (
+        <button
+          onClick={() => { resetForms(); setIsCreating(true); }}
+          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-emerald-700 font-semibold hover:bg-emerald-50 border-t border-gray-100"
+        >
+          <UserPlus size={16} /> Novo perfil
+        </button>
+      )}
+
+      {error && <p className="text-xs text-red-600 px-1">{error}</p>}
+    </div>
+  );
+};
+
 const Layout = ({ children }: { children?: React.ReactNode }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
   const location = useLocation();
+  const { activeProfile } = useProfiles();
+  const { loadError, reloadDatabase } = usePlantDatabase();
+
+  useEffect(() => {
+    setIsMenuOpen(false);
+    setIsProfileOpen(false);
+  }, [location.pathname]);
+
+  // Scores saved while the store Wi-Fi was down go out as soon as it comes back
+  useEffect(() => {
+    if (!syncBackend) return;
+    const flush = () => flushSyncQueue(syncBackend);
+    flush();
+    window.addEventListener('online', flush);
+    return () => window.removeEventListener('online', flush);
+  }, []);
 
   return (
     <div className="min-h-screen flex flex-col bg-green-50">
-      <header className="sticky top-0 z-50 bg-emerald-700 text-white shadow-md">
-        <div className="max-w-md mx-auto px-4 h-16 flex items-center justify-between">
+      <header className="sticky top-0 z-50 bg-emerald-700 text-white shadow-md print:hidden">
+        <div className="relative max-w-md mx-auto px-4 h-16 flex items-center justify-between">
           <Link to="/" className="flex items-center gap-2 font-bold text-lg">
             <Leaf className="text-emerald-300" />
             <span>Treinamento Garden</span>
           </Link>
+          <button
+            onClick={() => setIsProfileOpen(!isProfileOpen)}
+            className="ml-auto mr-2 md:order-last md:mr-0 md:ml-6 flex items-center gap-1 max-w-[8rem] px-2 py-1 rounded-full bg-emerald-800 text-sm hover:bg-emerald-900"
+          >
+            <Users size={16} className="flex-shrink-0" />
+            <span className="truncate">{activeProfile.name}</span>
+          </button>
           <button onClick={() => setIsMenuOpen(!isMenuOpen)} className="p-2 md:hidden">
             {isMenuOpen ? <X /> : <Menu />}
           </button>
-          <nav className="hidden md:flex gap-6 text-sm font-medium">
+          <nav className="hidden md:flex gap-6 text-sm font-medium ml-auto">
              <Link to="/" className="hover:text-emerald-200">Início</Link>
              <Link to="/study" className="hover:text-emerald-200">Estudar</Link>
              <Link to="/progress" className="hover:text-emerald-200">Progresso</Link>
+             <Link to="/catalog" className="hover:text-emerald-200">Catálogo</Link>
+             <Link to="/backup" className="hover:text-emerald-200">Backup</Link>
+             <Link to="/manager" className="hover:text-emerald-200">Gestor</Link>
           </nav>
         </div>
         {/* Mobile Menu */}
@@ -277,34 +1060,449 @@ const Layout = ({ children }: { children?: React.ReactNode }) => {
              <Link to="/study" onClick={() => setIsMenuOpen(false)} className="block py-2">Estudar Plantas</Link>
              <Link to="/quiz" onClick={() => setIsMenuOpen(false)} className="block py-2">Quiz do Dia</Link>
              <Link to="/progress" onClick={() => setIsMenuOpen(false)} className="block py-2">Meu Progresso</Link>
+             <Link to="/catalog" onClick={() => setIsMenuOpen(false)} className="block py-2">Gerenciar Catálogo</Link>
+             <Link to="/backup" onClick={() => setIsMenuOpen(false)} className="block py-2">Backup</Link>
+             <Link to="/manager" onClick={() => setIsMenuOpen(false)} className="flex items-center gap-2 py-2"><ClipboardList size={16} /> Relatório da Equipe</Link>
+          </div>
+        )}
+        {isProfileOpen && (
+          <div className="relative max-w-md mx-auto">
+            <ProfileSwitcher onClose={() => setIsProfileOpen(false)} />
           </div>
         )}
       </header>
-      <main className="flex-grow w-full max-w-md mx-auto px-4 py-6">
+      {/* Keyed by profile so every page reloads its progress after a switch */}
+      <main key={activeProfile.id} className="flex-grow w-full max-w-md mx-auto px-4 py-6 print:max-w-none">
+        {loadError && (
+          <div className="mb-4 bg-red-50 p-4 rounded-lg border border-red-100 text-sm text-red-800 flex items-start gap-2 print:hidden">
+            <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+            <div className="space-y-1">
+              <p>{loadError} O app segue com o catálogo original.</p>
+              <button onClick={reloadDatabase} className="font-semibold underline">Tentar de novo</button>
+            </div>
+          </div>
+        )}
         {children}
       </main>
     </div>
   );
 };
 
-// --- Pages ---
+const AccuracyBar = ({ label, correct, total, accuracy }: { label: string; correct: number; total: number; accuracy: number }) => (
+  <div>
+    <div className="flex justify-between text-sm mb-1">
+      <span className="text-gray-700">{label}</span>
+      <span className="font-semibold text-gray-600">{accuracy}% <span className="text-xs text-gray-400">({correct}/{total})</span></span>
+    </div>
+    <div className="w-full bg-gray-100 rounded-full h-2">
+      <div className={`h-2 rounded-full ${accuracy < 50 ? 'bg-red-400' : accuracy < 80 ? 'bg-amber-400' : 'bg-emerald-500'}`} style={{ width: `${accuracy}%` }}></div>
+    </div>
+  </div>
+);
+
+interface OfflineImagesRecord {
+  count: number;
+  failed: number;
+  date: string;
+}
+
+// An unreadable record is removed, which only means the photos get downloaded again
+const loadOfflineImagesRecord = (): OfflineImagesRecord | null => {
+  const stored = localStorage.getItem(OFFLINE_IMAGES_KEY);
+  if (!stored) return null;
+  try {
+    const record = JSON.parse(stored);
+    if (typeof record?.count === 'number' && typeof record.failed === 'number' && typeof record.date === 'string') return record;
+  } catch {
+    // Removed below
+  }
+  console.warn('Ignoring unreadable offline photos record');
+  localStorage.removeItem(OFFLINE_IMAGES_KEY);
+  return null;
+};
+
+const OfflineImagesCard = () => {
+  const { plants, isLoadingImages } = usePlantDatabase();
+  const [status, setStatus] = useState<'IDLE' | 'WORKING' | 'ERROR'>('IDLE');
+  const [saved, setSaved] = useState<OfflineImagesRecord | null>(loadOfflineImagesRecord);
+
+  const imageUrls = useMemo(() => getOfflineImageUrls(plants.map(p => p.imageUrl)), [plants]);
+
+  const downloadImages = useCallback(async () => {
+    setStatus('WORKING');
+    try {
+      const result = await cacheImagesForOffline(imageUrls);
+      const record: OfflineImagesRecord = { count: result.cached, failed: result.failed, date: getTodayKey() };
+      localStorage.setItem(OFFLINE_IMAGES_KEY, JSON.stringify(record));
+      setSaved(record);
+      setStatus('IDLE');
+    } catch (e) {
+      console.error("Error caching images for offline use", e);
+      setStatus('ERROR');
+    }
+  }, [imageUrls]);
+
+  // The first visit with signal downloads the whole catalog, and again whenever plants are added
+  useEffect(() => {
+    if (isLoadingImages || !navigator.onLine || status !== 'IDLE') return;
+    if (!saved || saved.count + saved.failed < imageUrls.length) downloadImages();
+  }, [isLoadingImages, imageUrls, saved, status, downloadImages]);
+
+  if (!isOfflineSupported()) return null;
 
-const HomePage = () => {
   return (
-    <div className="space-y-6 animate-fade-in">
-      <div className="text-center py-6">
-        <h1 className="text-2xl font-bold text-emerald-900">Olá, Consultor!</h1>
-        <p className="text-emerald-700">Pronto para dominar o jardim?</p>
+    <div className="bg-white p-4 rounded-lg border border-emerald-100 text-sm text-gray-700 flex items-start gap-3">
+      {saved && saved.failed === 0 ? <WifiOff size={16} className="mt-0.5 flex-shrink-0 text-emerald-600" /> : <DownloadCloud size={16} className="mt-0.5 flex-shrink-0 text-amber-600" />}
+      <div className="flex-1 space-y-1">
+        {status === 'WORKING' ? (
+          <p>Baixando as fotos do catálogo para usar sem internet...</p>
+        ) : saved ? (
+          <p>
+            <strong>Uso offline:</strong> {saved.count} de {imageUrls.length} fotos salvas neste aparelho em {formatDateKey(saved.date)}.
+            {saved.failed > 0 && ` ${saved.failed} não puderam ser baixadas.`}
+          </p>
+        ) : (
+          <p><strong>Uso offline:</strong> as fotos do catálogo ainda não foram baixadas.</p>
+        )}
+        {status === 'ERROR' && <p className="text-red-600">Não foi possível baixar as fotos. Tente de novo com internet.</p>}
+        {status !== 'WORKING' && (
+          <button onClick={downloadImages} className="text-emerald-700 font-semibold underline">
+            {saved ? 'Atualizar fotos offline' : 'Baixar fotos agora'}
+          </button>
+        )}
       </div>
-      
-      <div className="grid gap-4">
-        <Link to="/cycle" className="flex items-center gap-4 p-6 bg-white rounded-xl shadow-sm border border-emerald-100 hover:shadow-md hover:border-emerald-300 transition-all group">
-          <div className="bg-emerald-100 p-4 rounded-full group-hover:bg-emerald-200 transition-colors">
-            <Clock className="w-8 h-8 text-emerald-700" />
-          </div>
-          <div className="flex-1">
-            <h3 className="font-bold text-lg text-gray-800">Ciclo de 3 Minutos</h3>
-            <p className="text-sm text-gray-500">Duas plantas, foco total, rápido e eficiente.</p>
+    </div>
+  );
+};
+
+// Shown on the home page only when the device is running out of space
+const StorageWarning = () => {
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  useEffect(() => {
+    getStorageUsage().then(setStorage);
+  }, []);
+
+  if (!storage || getUsageRatio(storage) < STORAGE_WARNING_RATIO) return null;
+
+  return (
+    <div className="bg-amber-50 p-4 rounded-lg border border-amber-200 text-sm text-amber-900 flex items-start gap-2">
+      <AlertTriangle size={16} className="mt-0.5 flex-shrink-0" />
+      <p>
+        <strong>Pouco espaço:</strong> o app já usa {Math.round(getUsageRatio(storage) * 100)}% do espaço permitido neste aparelho.{' '}
+        <Link to="/backup" className="underline font-semibold">Liberar espaço</Link>
+      </p>
+    </div>
+  );
+};
+
+// Space used on the device, with cleanups of photos taken in the app
+const StorageCard = () => {
+  const { plants, photos, photosByPlant, removePlantPhoto, isLoadingImages } = usePlantDatabase();
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [isCleaning, setIsCleaning] = useState(false);
+
+  useEffect(() => {
+    if (!isLoadingImages && !isCleaning) getStorageUsage().then(setStorage);
+  }, [isLoadingImages, isCleaning]);
+
+  const activeIds = useMemo(() => new Set(plants.map(p => p.id)), [plants]);
+  const orphanPhotos = photos.filter(p => !activeIds.has(p.plantId));
+  const extraPhotos = Object.values(photosByPlant).flatMap(list => list.slice(1)).filter(p => activeIds.has(p.plantId));
+  const totalSize = (list: StoredPhoto[]) => formatBytes(list.reduce((sum, p) => sum + p.size, 0));
+
+  const cleanUp = async (list: StoredPhoto[], message: string) => {
+    if (!window.confirm(message)) return;
+    setIsCleaning(true);
+    for (const photo of list) await removePlantPhoto(photo.id);
+    setIsCleaning(false);
+  };
+
+  if (isLoadingImages) return null;
+
+  const ratio = storage ? getUsageRatio(storage) : 0;
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+      <h3 className="font-bold text-gray-800 flex items-center gap-2"><Database size={18} className="text-emerald-600" /> Espaço no aparelho</h3>
+      {storage ? (
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm text-gray-700">
+            <span>{formatBytes(storage.usage)} de {formatBytes(storage.quota)}</span>
+            <span className="font-semibold">{Math.round(ratio * 100)}%</span>
+          </div>
+          <div className="w-full bg-gray-100 rounded-full h-2">
+            <div className={`h-2 rounded-full ${ratio >= STORAGE_WARNING_RATIO ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, ratio * 100)}%` }}></div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">Este navegador não informa o espaço disponível.</p>
+      )}
+      <p className="text-sm text-gray-600">Fotos tiradas no app: {photos.length} ({totalSize(photos)})</p>
+      {ratio >= STORAGE_WARNING_RATIO && (
+        <p className="text-sm text-amber-800 bg-amber-50 p-3 rounded-lg">
+          O aparelho está quase sem espaço para o app. Faça um backup e libere espaço abaixo; sem espaço, novas fotos não são salvas.
+        </p>
+      )}
+      {orphanPhotos.length > 0 && (
+        <button
+          onClick={() => cleanUp(orphanPhotos, `Apagar ${orphanPhotos.length} fotos de plantas arquivadas ou removidas do catálogo?`)}
+          disabled={isCleaning}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-gray-100 text-gray-800 rounded-xl font-semibold hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Trash2 size={16} /> Fotos de plantas fora do catálogo ({orphanPhotos.length} · {totalSize(orphanPhotos)})
+        </button>
+      )}
+      {extraPhotos.length > 0 && (
+        <button
+          onClick={() => cleanUp(extraPhotos, `Manter só a primeira foto de cada planta e apagar as outras ${extraPhotos.length}?`)}
+          disabled={isCleaning}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-gray-100 text-gray-800 rounded-xl font-semibold hover:bg-gray-200 disabled:opacity-50"
+        >
+          <Trash2 size={16} /> Manter só a primeira foto de cada planta ({extraPhotos.length} · {totalSize(extraPhotos)})
+        </button>
+      )}
+    </div>
+  );
+};
+
+const CROP_OUTPUT_SIZE = 800;
+
+// Square crop of a captured photo: drag to frame the plant, slider to zoom
+const PhotoCropper = ({ src, onConfirm, onRetake, isSaving }: {
+  src: string;
+  onConfirm: (file: File) => void;
+  onRetake: () => void;
+  isSaving: boolean;
+}) => {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [frameSize, setFrameSize] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = src;
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, [src]);
+
+  useEffect(() => {
+    const measure = () => setFrameSize(frameRef.current?.clientWidth || 0);
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Scale at which the photo covers the whole frame, times the user's zoom
+  const scale = image && frameSize ? Math.max(frameSize / image.width, frameSize / image.height) * zoom : 1;
+
+  // Keeps the photo covering the frame so the crop never has empty borders
+  const clampOffset = (x: number, y: number) => {
+    if (!image) return { x: 0, y: 0 };
+    const maxX = Math.max(0, (image.width * scale - frameSize) / 2);
+    const maxY = Math.max(0, (image.height * scale - frameSize) / 2);
+    return { x: Math.min(maxX, Math.max(-maxX, x)), y: Math.min(maxY, Math.max(-maxY, y)) };
+  };
+
+  useEffect(() => {
+    setOffset(prev => clampOffset(prev.x, prev.y));
+  }, [zoom, frameSize, image]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    setOffset(clampOffset(e.clientX - dragRef.current.x, e.clientY - dragRef.current.y));
+  };
+
+  const handleConfirm = () => {
+    if (!image || !frameSize) return;
+    const sourceSize = frameSize / scale;
+    const sourceX = (image.width - sourceSize) / 2 - offset.x / scale;
+    const sourceY = (image.height - sourceSize) / 2 - offset.y / scale;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = CROP_OUTPUT_SIZE;
+    canvas.height = CROP_OUTPUT_SIZE;
+    canvas.getContext('2d')?.drawImage(image, sourceX, sourceY, sourceSize, sourceSize, 0, 0, CROP_OUTPUT_SIZE, CROP_OUTPUT_SIZE);
+    canvas.toBlob(blob => {
+      if (blob) onConfirm(new File([blob], 'foto.jpg', { type: 'image/jpeg' }));
+    }, 'image/jpeg', 0.9);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        ref={frameRef}
+        className="relative w-full aspect-square overflow-hidden rounded-xl bg-gray-900 touch-none cursor-move"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerCancel={() => { dragRef.current = null; }}
+      >
+        {image && (
+          <img
+            src={src}
+            alt="Foto capturada"
+            draggable={false}
+            className="absolute left-1/2 top-1/2 max-w-none select-none"
+            style={{
+              width: image.width * scale,
+              height: image.height * scale,
+              transform: `translate(calc(-50% + ${offset.x}px), calc(-50% + ${offset.y}px))`
+            }}
+          />
+        )}
+      </div>
+      <label className="flex items-center gap-3 text-sm text-gray-600">
+        Zoom
+        <input type="range" min={1} max={3} step={0.05} value={zoom} onChange={e => setZoom(Number(e.target.value))} className="flex-1 accent-emerald-600" />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onRetake} disabled={isSaving} className="flex items-center justify-center gap-2 py-3 bg-gray-200 text-gray-800 rounded-xl font-bold hover:bg-gray-300 disabled:opacity-50">
+          <RotateCcw size={18} /> Tirar outra
+        </button>
+        <button onClick={handleConfirm} disabled={!image || isSaving} className="flex items-center justify-center gap-2 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300">
+          <Check size={18} /> {isSaving ? 'Salvando...' : 'Salvar'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Object URL of a photo's full-size image while `enabled`; released again as soon as it isn't needed
+const useFullPhotoUrl = (photoId: string | undefined, enabled: boolean) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!photoId || !enabled) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    getFullPhoto(photoId)
+      .then(image => {
+        if (cancelled || !image) return;
+        objectUrl = URL.createObjectURL(image);
+        setUrl(objectUrl);
+      })
+      .catch(e => console.error("Error loading photo", e));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [photoId, enabled]);
+
+  return url;
+};
+
+// Shows the thumbnail at once and swaps in the full image once it is read
+const GallerySlide = ({ image, alt, isNear }: { image: PlantImage; alt: string; isNear: boolean }) => {
+  const fullUrl = useFullPhotoUrl(image.photoId, isNear);
+  return (
+    <div className="relative w-full h-full flex-shrink-0 snap-center">
+      <img src={fullUrl || image.url} alt={alt} className="w-full h-full object-cover" />
+      {image.label && (
+        <span className="absolute top-3 left-3 bg-white/90 text-xs font-semibold text-gray-700 px-2 py-1 rounded-full">
+          {PHOTO_LABELS[image.label]}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const QuizImage = ({ url, photoId }: { url: string; photoId?: string }) => {
+  const fullUrl = useFullPhotoUrl(photoId, true);
+  return <img src={fullUrl || url} alt="Quiz" className="w-full h-48 object-cover rounded-xl mb-6" />;
+};
+
+// Swipeable strip of a plant's photos (scroll snapping, so touch swipes work natively)
+const PhotoGallery = ({ images, alt, className = 'h-64', onIndexChange }: {
+  images: PlantImage[];
+  alt: string;
+  className?: string;
+  onIndexChange?: (index: number) => void;
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+
+  const showIndex = (next: number) => {
+    setIndex(next);
+    onIndexChange?.(next);
+  };
+
+  // A removed photo can leave the strip shorter than the current position
+  useEffect(() => {
+    if (index > images.length - 1) showIndex(Math.max(0, images.length - 1));
+  }, [images.length]);
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    const next = Math.round(track.scrollLeft / track.clientWidth);
+    if (next !== index) showIndex(next);
+  };
+
+  const goTo = (next: number) => {
+    const track = trackRef.current;
+    if (track) track.scrollTo({ left: next * track.clientWidth, behavior: 'smooth' });
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        className="flex h-full overflow-x-auto snap-x snap-mandatory"
+        style={{ scrollbarWidth: 'none' }}
+      >
+        {/* Only the visible photo and its neighbours are loaded in full */}
+        {images.map((image, i) => (
+          <GallerySlide key={image.photoId || image.url} image={image} alt={`${alt} (${i + 1})`} isNear={Math.abs(i - index) <= 1} />
+        ))}
+      </div>
+      {images.length > 1 && (
+        <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-1.5 bg-black/30 px-2 py-1 rounded-full">
+          {images.map((image, i) => (
+            <button
+              key={image.photoId || image.url}
+              onClick={() => goTo(i)}
+              className={`w-2 h-2 rounded-full transition-colors ${i === index ? 'bg-white' : 'bg-white/50'}`}
+              aria-label={`Foto ${i + 1} de ${images.length}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// --- Pages ---
+
+const HomePage = () => {
+  const { activeProfile } = useProfiles();
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="text-center py-6">
+        <h1 className="text-2xl font-bold text-emerald-900">Olá, {activeProfile.name}!</h1>
+        <p className="text-emerald-700">Pronto para dominar o jardim?</p>
+      </div>
+      
+      <div className="grid gap-4">
+        <Link to="/cycle" className="flex items-center gap-4 p-6 bg-white rounded-xl shadow-sm border border-emerald-100 hover:shadow-md hover:border-emerald-300 transition-all group">
+          <div className="bg-emerald-100 p-4 rounded-full group-hover:bg-emerald-200 transition-colors">
+            <Clock className="w-8 h-8 text-emerald-700" />
+          </div>
+          <div className="flex-1">
+            <h3 className="font-bold text-lg text-gray-800">Ciclo de Estudo</h3>
+            <p className="text-sm text-gray-500">De 3 minutos a um intervalo inteiro, com pausa quando chegar cliente.</p>
           </div>
           <ChevronRight className="text-gray-400 group-hover:text-emerald-600" />
         </Link>
@@ -326,7 +1524,7 @@ const HomePage = () => {
           </div>
           <div className="flex-1">
             <h3 className="font-bold text-lg text-gray-800">Quiz do Dia</h3>
-            <p className="text-sm text-gray-500">Teste seu conhecimento com 3 desafios.</p>
+            <p className="text-sm text-gray-500">3 desafios rápidos ou treinos de 10 e 20 perguntas.</p>
           </div>
           <ChevronRight className="text-gray-400 group-hover:text-emerald-600" />
         </Link>
@@ -347,82 +1545,182 @@ const HomePage = () => {
         <Database size={16} className="mt-0.5 flex-shrink-0" />
         <p>
           <strong>Nota sobre as fotos:</strong> As fotos que você adicionar ficarão salvas no seu navegador atual. 
-          Se trocar de celular ou limpar os dados de navegação, elas serão apagadas.
+          Se trocar de celular ou limpar os dados de navegação, elas serão apagadas. 
+          Faça um <Link to="/backup" className="underline font-semibold">backup</Link> para levar tudo com você.
         </p>
       </div>
+
+      <StorageWarning />
+      <OfflineImagesCard />
     </div>
   );
 };
 
+const GRADE_OPTIONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'AGAIN', label: 'Não sabia', className: 'bg-red-100 text-red-800 hover:bg-red-200' },
+  { grade: 'HARD', label: 'Sabia com dúvida', className: 'bg-orange-100 text-orange-800 hover:bg-orange-200' },
+  { grade: 'GOOD', label: 'Sabia', className: 'bg-emerald-100 text-emerald-800 hover:bg-emerald-200' },
+  { grade: 'EASY', label: 'Sabia fácil', className: 'bg-blue-100 text-blue-800 hover:bg-blue-200' },
+];
+
 const CyclePage = () => {
   const { plants, isLoadingImages } = usePlantDatabase();
-  const [sessionPlants, setSessionPlants] = useState<Plant[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // Switching profiles remounts the page; a cycle is always saved for the profile that ran it
+  const [profileId] = useState(getActiveProfileId);
+  const [savedCycle, setSavedCycle] = useState<SavedCycle | null>(() => loadSavedCycle(profileId));
+  const [cycle, setCycle] = useState<SavedCycle | null>(null);
+  const [customSettings, setCustomSettings] = useState<CycleSettings>(loadCustomCycleSettings);
   const [showDetails, setShowDetails] = useState(false);
-  const [timeLeft, setTimeLeft] = useState(180); // 3 minutes
-  const [isActive, setIsActive] = useState(false);
-  const [isFinished, setIsFinished] = useState(false);
-  
-  // Initialize cycle once images are loaded
+  const [now, setNow] = useState(Date.now);
+  const [finishedCycle, setFinishedCycle] = useState<SavedCycle | null>(null); // shown in the summary
+  const cycleRef = useRef(cycle);
+  cycleRef.current = cycle;
+
+  const plantsById = useMemo(() => new Map(plants.map(p => [p.id, p])), [plants]);
+
+  // Every step is saved, so the cycle can be picked up again later
   useEffect(() => {
-    if (!isLoadingImages && plants.length > 0) {
-      const selected = getRandomPlantsFromList(plants, 2);
-      setSessionPlants(selected);
-      setIsActive(true);
-    }
-  }, [isLoadingImages, plants]); // Re-run if plants update (e.g. image loads late), but mainly on mount
+    if (cycle) saveCycle(cycle, profileId);
+  }, [cycle, profileId]);
+
+  // Leaving the page or closing the app pauses the cycle; the tablet going to sleep does not
+  useEffect(() => {
+    const pause = () => {
+      const current = cycleRef.current;
+      if (current) saveCycle({ ...current, timer: pauseTimer(current.timer, Date.now()) }, profileId);
+    };
+    window.addEventListener('pagehide', pause);
+    return () => {
+      window.removeEventListener('pagehide', pause);
+      pause();
+    };
+  }, [profileId]);
 
-  // Timer logic
+  // Ticks only redraw the countdown, and waking up catches up right away
+  const isRunning = !!cycle && !isTimerPaused(cycle.timer);
   useEffect(() => {
-    let interval: number | undefined;
-    if (isActive && timeLeft > 0) {
-      interval = window.setInterval(() => {
-        setTimeLeft((prev) => prev - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      handleFinish();
+    if (!isRunning) return;
+    const tick = () => setNow(Date.now());
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    document.addEventListener('visibilitychange', tick);
+    return () => {
+      window.clearInterval(interval);
+      document.removeEventListener('visibilitychange', tick);
+    };
+  }, [isRunning]);
+
+  const remainingMs = cycle ? getRemainingMs(cycle.timer, now) : 0;
+
+  const finishCycle = (finished: SavedCycle) => {
+    // Only plants the consultant graded count as studied; skipped ones come back in a later cycle
+    const { gradedIds } = summarizeCycle(finished);
+    if (gradedIds.length > 0) {
+      const currentProgress = getInitialProgress(profileId);
+      const today = getTodayKey();
+      const grades = Object.fromEntries(gradedIds.map(id => [id, finished.ratings[id]]));
+
+      const reviews = { ...currentProgress.reviews };
+      gradedIds.forEach(plantId => {
+        reviews[plantId] = applyReview(reviews[plantId], plantId, grades[plantId], today);
+      });
+
+      saveProgressAndSync({
+        ...currentProgress,
+        plantsStudiedCount: currentProgress.plantsStudiedCount + gradedIds.length,
+        ...registerActivity(currentProgress, today),
+        history: [...currentProgress.history, { date: today, type: 'CYCLE', plantIds: gradedIds, grades }],
+        reviews
+      }, profileId);
     }
-    return () => clearInterval(interval);
-  }, [isActive, timeLeft]);
+    saveCycle(null, profileId);
+    setCycle(null);
+    setSavedCycle(null);
+    setFinishedCycle(finished);
+  };
 
-  const handleFinish = useCallback(() => {
-    setIsActive(false);
-    setIsFinished(true);
-    
-    // Update Progress
-    const currentProgress = getInitialProgress();
-    const today = new Date().toISOString().split('T')[0];
-    
-    // Check streak
-    let streak = currentProgress.streakDays;
-    if (currentProgress.lastStudyDate) {
-      const last = new Date(currentProgress.lastStudyDate);
-      const now = new Date();
-      const diffTime = Math.abs(now.getTime() - last.getTime());
-      const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-      if (diffDays === 1) streak++;
-      else if (diffDays > 1 && today !== currentProgress.lastStudyDate) streak = 1;
+  useEffect(() => {
+    if (cycle && remainingMs === 0) finishCycle(cycle);
+  }, [cycle, remainingMs]);
+
+  // A plant retired or deleted in the catalog during the cycle is skipped from then on
+  useEffect(() => {
+    if (isLoadingImages || !cycle || cycle.plantIds.every(id => plantsById.has(id))) return;
+    const available = keepAvailablePlants(cycle, new Set(plantsById.keys()));
+    if (available) {
+      if (available.plantIds[available.currentIndex] !== cycle.plantIds[cycle.currentIndex]) setShowDetails(false);
+      setCycle(available);
     } else {
-      streak = 1;
+      saveCycle(null, profileId);
+      setCycle(null);
     }
+  }, [isLoadingImages, cycle, plantsById, profileId]);
+
+  const startCycle = (presetId: CyclePresetId, settings: CycleSettings) => {
+    const selected = selectPlantsForCycle(plants, getInitialProgress(profileId).reviews, settings.plantCount, getTodayKey());
+    if (selected.length === 0) return;
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setCycle({
+      presetId,
+      plantIds: selected.map(p => p.id),
+      currentIndex: 0,
+      ratings: {},
+      timer: createTimer(settings.minutes, startedAt),
+      startedAt: new Date(startedAt).toISOString()
+    });
+    setSavedCycle(null);
+    setShowDetails(false);
+    setFinishedCycle(null);
+  };
 
-    const newProgress: UserProgress = {
-      ...currentProgress,
-      plantsStudiedCount: currentProgress.plantsStudiedCount + sessionPlants.length,
-      lastStudyDate: today,
-      streakDays: streak,
-      history: [...currentProgress.history, { date: today, type: 'CYCLE' }]
-    };
-    saveProgress(newProgress);
-  }, [sessionPlants]);
+  const startCustomCycle = (e: React.FormEvent) => {
+    e.preventDefault();
+    const settings = clampCycleSettings(customSettings);
+    setCustomSettings(settings);
+    localStorage.setItem(CUSTOM_CYCLE_KEY, JSON.stringify(settings));
+    startCycle('CUSTOM', settings);
+  };
+
+  const discardSavedCycle = () => {
+    saveCycle(null, profileId);
+    setSavedCycle(null);
+  };
+
+  const resumeSavedCycle = () => {
+    if (!savedCycle) return;
+    const available = keepAvailablePlants(savedCycle, new Set(plantsById.keys()));
+    if (!available) return discardSavedCycle();
+    const resumedAt = Date.now();
+    setNow(resumedAt);
+    setCycle({ ...available, timer: resumeTimer(available.timer, resumedAt) });
+    setSavedCycle(null);
+    setShowDetails(false);
+  };
 
-  const formatTime = (seconds: number) => {
-    const m = Math.floor(seconds / 60);
-    const s = seconds % 60;
-    return `${m}:${s < 10 ? '0' : ''}${s}`;
+  const togglePause = () => {
+    if (!cycle) return;
+    const time = Date.now();
+    setNow(time);
+    setCycle({ ...cycle, timer: isTimerPaused(cycle.timer) ? resumeTimer(cycle.timer, time) : pauseTimer(cycle.timer, time) });
   };
 
-  if (isLoadingImages || sessionPlants.length === 0) {
+  // Moves to the next card, or ends the cycle after the last one
+  const advance = (current: SavedCycle) => {
+    if (current.currentIndex < current.plantIds.length - 1) {
+      setCycle({ ...current, currentIndex: current.currentIndex + 1 });
+      setShowDetails(false);
+    } else {
+      finishCycle(current);
+    }
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!cycle) return;
+    advance({ ...cycle, ratings: { ...cycle.ratings, [cycle.plantIds[cycle.currentIndex]]: grade } });
+  };
+
+  if (isLoadingImages) {
     return (
       <div className="flex items-center justify-center h-64 text-emerald-600">
         <div className="flex flex-col items-center gap-2">
@@ -433,21 +1731,144 @@ const CyclePage = () => {
     );
   }
 
-  if (isFinished) {
+  if (finishedCycle) {
+    const { gradedIds, ungradedIds, countByGrade } = summarizeCycle(finishedCycle);
     return (
-      <div className="flex flex-col items-center justify-center space-y-6 py-10 animate-fade-in">
+      <div className="flex flex-col items-center space-y-6 py-10 animate-fade-in">
         <CheckCircle className="w-20 h-20 text-emerald-500" />
         <h2 className="text-2xl font-bold text-gray-800">Ciclo Concluído!</h2>
-        <p className="text-center text-gray-600">Você estudou 2 novas plantas hoje. Continue assim!</p>
+        <p className="text-center text-gray-600">
+          {gradedIds.length > 0
+            ? <>Você avaliou {gradedIds.length} {gradedIds.length === 1 ? 'planta' : 'plantas'} neste ciclo. Continue assim!</>
+            : 'Nenhuma planta foi avaliada neste ciclo.'}
+        </p>
+
+        {gradedIds.length > 0 && (
+          <div className="w-full bg-white p-4 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {GRADE_OPTIONS.map(({ grade, label, className }) => (
+                <div key={grade} className={`rounded-lg p-2 ${className}`}>
+                  <p className="text-xl font-bold">{countByGrade[grade]}</p>
+                  <p className="text-xs leading-tight">{label}</p>
+                </div>
+              ))}
+            </div>
+            <ul className="divide-y divide-gray-100 text-sm">
+              {gradedIds.map(id => {
+                const option = GRADE_OPTIONS.find(o => o.grade === finishedCycle.ratings[id]);
+                return (
+                  <li key={id} className="flex items-center justify-between gap-2 py-2">
+                    <Link to={`/plant/${id}`} className="text-gray-800 hover:text-emerald-700 hover:underline">{plantsById.get(id)?.commonName}</Link>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${option?.className}`}>{option?.label}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {ungradedIds.length > 0 && (
+          <p className="text-sm text-gray-500 text-center">
+            {ungradedIds.length} {ungradedIds.length === 1 ? 'planta ficou' : 'plantas ficaram'} sem avaliação.
+          </p>
+        )}
+
         <div className="flex gap-4 w-full">
            <Link to="/" className="flex-1 bg-gray-200 text-gray-800 py-3 rounded-lg font-semibold text-center hover:bg-gray-300">Voltar</Link>
            <Link to="/quiz" className="flex-1 bg-emerald-600 text-white py-3 rounded-lg font-semibold text-center hover:bg-emerald-700">Fazer Quiz</Link>
         </div>
+        <button onClick={() => setFinishedCycle(null)} className="text-emerald-700 font-semibold hover:underline">
+          Novo ciclo
+        </button>
+      </div>
+    );
+  }
+
+  if (!cycle) {
+    const inputClass = "w-20 p-2 rounded-lg border border-gray-200 text-right focus:ring-2 focus:ring-emerald-500 focus:outline-none";
+    return (
+      <div className="space-y-4 animate-fade-in">
+        <div className="flex items-center gap-2 mb-2">
+          <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+          <h1 className="text-2xl font-bold text-gray-800">Ciclo de Estudo</h1>
+        </div>
+
+        {savedCycle && (
+          <div className="bg-amber-50 p-4 rounded-xl border border-amber-200 space-y-3">
+            <div>
+              <h3 className="font-bold text-amber-900">Ciclo em andamento</h3>
+              <p className="text-sm text-amber-800">
+                Planta {savedCycle.currentIndex + 1} de {savedCycle.plantIds.length} · {formatCountdown(getRemainingMs(savedCycle.timer, now))} restantes
+              </p>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={discardSavedCycle} className="py-2 bg-white border border-amber-200 text-amber-800 rounded-lg font-semibold hover:bg-amber-100">
+                Descartar
+              </button>
+              <button onClick={resumeSavedCycle} className="flex items-center justify-center gap-2 py-2 bg-amber-500 text-white rounded-lg font-semibold hover:bg-amber-600">
+                <Play size={16} /> Continuar
+              </button>
+            </div>
+          </div>
+        )}
+
+        {(Object.keys(CYCLE_PRESETS) as (keyof typeof CYCLE_PRESETS)[]).map(presetId => (
+          <button
+            key={presetId}
+            onClick={() => startCycle(presetId, CYCLE_PRESETS[presetId])}
+            className="w-full flex items-center gap-4 p-5 bg-white rounded-xl shadow-sm border border-emerald-100 hover:shadow-md hover:border-emerald-300 transition-all text-left group"
+          >
+            <div className="bg-emerald-100 p-3 rounded-full group-hover:bg-emerald-200 transition-colors">
+              <Clock className="w-6 h-6 text-emerald-700" />
+            </div>
+            <div className="flex-1">
+              <h3 className="font-bold text-gray-800">{CYCLE_PRESET_LABELS[presetId]}</h3>
+              <p className="text-sm text-gray-500">{CYCLE_PRESETS[presetId].minutes} minutos · {CYCLE_PRESETS[presetId].plantCount} plantas</p>
+            </div>
+            <ChevronRight className="text-gray-400 group-hover:text-emerald-600" />
+          </button>
+        ))}
+
+        <form onSubmit={startCustomCycle} className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+          <h3 className="font-bold text-gray-800">{CYCLE_PRESET_LABELS.CUSTOM}</h3>
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            Minutos
+            <input
+              type="number"
+              min={CUSTOM_CYCLE_LIMITS.minutes.min}
+              max={CUSTOM_CYCLE_LIMITS.minutes.max}
+              value={customSettings.minutes || ''}
+              onChange={(e) => setCustomSettings(prev => ({ ...prev, minutes: Number(e.target.value) }))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center justify-between text-sm text-gray-600">
+            Plantas
+            <input
+              type="number"
+              min={CUSTOM_CYCLE_LIMITS.plantCount.min}
+              max={CUSTOM_CYCLE_LIMITS.plantCount.max}
+              value={customSettings.plantCount || ''}
+              onChange={(e) => setCustomSettings(prev => ({ ...prev, plantCount: Number(e.target.value) }))}
+              className={inputClass}
+            />
+          </label>
+          <button type="submit" className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700">
+            Começar
+          </button>
+        </form>
+
+        {savedCycle && <p className="text-xs text-gray-500 text-center">Começar um novo ciclo descarta o que está em andamento.</p>}
       </div>
     );
   }
 
-  const currentPlant = sessionPlants[currentIndex];
+  const currentPlant = plantsById.get(cycle.plantIds[cycle.currentIndex]);
+  // Only until the effect above drops the missing plant
+  if (!currentPlant) return null;
+
+  const cardFront = getCardFront(currentPlant, cycle.currentIndex);
+  const isPaused = isTimerPaused(cycle.timer);
 
   return (
     <div className="flex flex-col h-full space-y-4">
@@ -455,333 +1876,917 @@ const CyclePage = () => {
       <div className="flex items-center justify-between bg-white p-4 rounded-lg shadow-sm">
         <div className="flex items-center gap-2 font-mono font-bold text-xl text-emerald-700">
            <Clock size={20} />
-           {formatTime(timeLeft)}
+           {formatCountdown(remainingMs)}
+           <button
+             onClick={togglePause}
+             className="ml-1 p-2 rounded-full text-emerald-700 hover:bg-emerald-50"
+             title={isPaused ? 'Continuar' : 'Pausar'}
+           >
+             {isPaused ? <Play size={18} /> : <Pause size={18} />}
+           </button>
         </div>
         <div className="text-sm font-medium text-gray-500">
-          Planta {currentIndex + 1} de {sessionPlants.length}
+          Planta {cycle.currentIndex + 1} de {cycle.plantIds.length}
         </div>
       </div>
 
-      {/* Card */}
-      <div className="bg-white rounded-2xl shadow-lg overflow-hidden flex flex-col flex-grow relative">
-         <img 
-           src={currentPlant.imageUrl} 
-           alt={currentPlant.commonName} 
-           className="w-full h-64 object-cover"
-         />
-         <div className="p-6 flex-grow flex flex-col space-y-4">
-            <div>
-              <h2 className="text-2xl font-bold text-gray-800">{currentPlant.commonName}</h2>
-              <p className="text-emerald-600 italic font-medium">{currentPlant.scientificName}</p>
+      {isPaused ? (
+        <div className="bg-white rounded-2xl shadow-lg flex-grow flex flex-col items-center justify-center gap-4 p-10 text-center">
+          <Pause className="w-12 h-12 text-gray-300" />
+          <p className="text-gray-600">Ciclo pausado. O tempo volta a correr quando você continuar.</p>
+          <button onClick={togglePause} className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700">
+            <Play size={20} /> Continuar
+          </button>
+        </div>
+      ) : (
+        <>
+          {/* Card: the front asks from the photo or the name, the back shows everything */}
+          <div className="bg-white rounded-2xl shadow-lg overflow-hidden flex flex-col flex-grow relative">
+             {(showDetails || cardFront === 'PHOTO') && (
+               <PhotoGallery key={currentPlant.id} images={getPlantImages(currentPlant)} alt={currentPlant.commonName} />
+             )}
+             <div className="p-6 flex-grow flex flex-col space-y-4">
+                {showDetails || cardFront === 'NAME' ? (
+                  <div>
+                    <h2 className="text-2xl font-bold text-gray-800">{currentPlant.commonName}</h2>
+                    <p className="text-emerald-600 italic font-medium">{currentPlant.scientificName}</p>
+                  </div>
+                ) : (
+                  <h2 className="text-2xl font-bold text-gray-800">Que planta é esta?</h2>
+                )}
+
+                {showDetails ? (
+                  <div className="space-y-4 animate-fade-in">
+                    <div className="flex items-center gap-2">
+                       <span className="font-semibold text-gray-700">Luminosidade:</span>
+                       <LightBadge type={currentPlant.light} />
+                    </div>
+                    <div>
+                       <span className="font-semibold text-gray-700">Categoria:</span>
+                       <span className="ml-2 text-gray-600">{currentPlant.category}</span>
+                    </div>
+                    <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-100">
+                      <span className="font-semibold text-yellow-800 block mb-1">Curiosidade:</span>
+                      <p className="text-yellow-900 text-sm leading-relaxed">{currentPlant.trivia}</p>
+                    </div>
+                    <CareGuide plant={currentPlant} />
+                    <div>
+                      <span className="font-semibold text-gray-700 block mb-2">Você sabia?</span>
+                      <div className="grid grid-cols-2 gap-2">
+                        {GRADE_OPTIONS.map(({ grade, label, className }) => (
+                          <button
+                            key={grade}
+                            onClick={() => handleGrade(grade)}
+                            className={`py-3 rounded-lg text-sm font-semibold active:scale-95 transition-transform ${className}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex-grow flex items-center justify-center text-gray-400 italic text-center">
+                    <p>
+                      {cardFront === 'PHOTO'
+                        ? 'Tente lembrar o nome antes de virar o cartão.'
+                        : 'Tente lembrar como ela é, a luminosidade e os cuidados antes de virar o cartão.'}
+                    </p>
+                  </div>
+                )}
+             </div>
+          </div>
+
+          {/* Controls: grading on the back moves on, so they are only needed on the front */}
+          {!showDetails && (
+            <div className="grid grid-cols-2 gap-4 sticky bottom-4">
+              <button
+                onClick={() => advance(cycle)}
+                className="flex items-center justify-center gap-2 bg-white border-2 border-gray-300 text-gray-600 py-3 rounded-xl font-bold hover:bg-gray-50 active:scale-95 transition-transform"
+              >
+                <SkipForward size={20} /> Pular
+              </button>
+              <button
+                onClick={() => setShowDetails(true)}
+                className="flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 active:scale-95 transition-transform"
+              >
+                <Eye size={20} /> Virar cartão
+              </button>
             </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
 
-            {showDetails ? (
-              <div className="space-y-4 animate-fade-in">
-                <div className="flex items-center gap-2">
-                   <span className="font-semibold text-gray-700">Luminosidade:</span>
-                   <LightBadge type={currentPlant.light} />
-                </div>
-                <div>
-                   <span className="font-semibold text-gray-700">Categoria:</span>
-                   <span className="ml-2 text-gray-600">{currentPlant.category}</span>
-                </div>
-                <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-100">
-                  <span className="font-semibold text-yellow-800 block mb-1">Curiosidade:</span>
-                  <p className="text-yellow-900 text-sm leading-relaxed">{currentPlant.trivia}</p>
-                </div>
-              </div>
-            ) : (
-              <div className="flex-grow flex items-center justify-center text-gray-400 italic">
-                <p>Clique em "Mostrar Informações" para estudar</p>
-              </div>
-            )}
-         </div>
+const PHOTO_FILTER_LABELS: Record<PhotoFilter, string> = {
+  REAL: 'Com foto real',
+  PLACEHOLDER: 'Sem foto real'
+};
+
+const STUDY_STATUS_LABELS: Record<StudyStatusFilter, string> = {
+  STUDIED: 'Já estudadas',
+  NOT_STUDIED: 'Ainda não estudadas',
+  WEAK: 'Com dificuldade'
+};
+
+const PLANT_SORT_LABELS: Record<PlantSort, string> = {
+  NAME: 'Nome popular',
+  SCIENTIFIC: 'Nome científico',
+  CATEGORY: 'Categoria',
+  WEAKEST: 'Mais difíceis primeiro'
+};
+
+const loadPlantStudyState = (): PlantStudyState => {
+  const progress = getInitialProgress();
+  return { studiedIds: getStudiedPlantIds(progress), reviews: progress.reviews };
+};
+
+// Where the study list was left, so coming back from a plant doesn't start over at the top
+let studyListScroll = { search: '', y: 0 };
+
+const StudyPage = () => {
+  const { plants } = usePlantDatabase();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const location = useLocation();
+  const [study] = useState(loadPlantStudyState);
+
+  // Coming back from a plant, the list opens where it was left. Layout effects run
+  // before the next page replaces the list, while its scroll position is still there.
+  const searchRef = useRef(location.search);
+  searchRef.current = location.search;
+  useLayoutEffect(() => {
+    if (studyListScroll.search === searchRef.current) window.scrollTo(0, studyListScroll.y);
+    return () => {
+      studyListScroll = { search: searchRef.current, y: window.scrollY };
+    };
+  }, []);
+
+  // Filters live in the URL, so a link to e.g. "all shade foliage" opens the same list
+  const filters = useMemo(() => parsePlantFilters(searchParams), [searchParams]);
+  const activeFilterCount = countActiveFilters(filters);
+  const [showFilters, setShowFilters] = useState(activeFilterCount > 0);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const updateFilters = (changes: Partial<PlantFilters>) =>
+    setSearchParams(writePlantFilters(searchParams, { ...filters, ...changes }), { replace: true });
+
+  const categories = useMemo(
+    () => Array.from(new Set(plants.map(p => p.category))).sort((a, b) => a.localeCompare(b, 'pt-BR')),
+    [plants]
+  );
+
+  const filteredPlants = useMemo(() => filterPlants(plants, filters, study), [plants, filters, study]);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      // No clipboard access over plain http; let the manager copy it by hand
+      window.prompt('Copie o link:', window.location.href);
+    }
+  };
+
+  return (
+    <div className="space-y-4 h-full flex flex-col">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800">Catálogo de Plantas</h1>
+        <Link to="/photos" className="ml-auto flex items-center gap-1 px-3 py-2 text-sm font-semibold text-emerald-700 bg-white border border-emerald-200 rounded-lg hover:bg-emerald-50">
+          <Images size={16} /> Fotos
+        </Link>
       </div>
 
-      {/* Controls */}
-      <div className="grid grid-cols-2 gap-4 sticky bottom-4">
-        <button 
-          onClick={() => setShowDetails(!showDetails)}
-          className="flex items-center justify-center gap-2 bg-white border-2 border-emerald-600 text-emerald-600 py-3 rounded-xl font-bold hover:bg-emerald-50 active:scale-95 transition-transform"
-        >
-          {showDetails ? <><EyeOff size={20}/> Ocultar</> : <><Eye size={20}/> Mostrar</>}
-        </button>
-        
-        {currentIndex < sessionPlants.length - 1 ? (
-          <button 
-            onClick={() => {
-              setCurrentIndex(prev => prev + 1);
-              setShowDetails(false);
-            }}
-            className="flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 active:scale-95 transition-transform"
+      <div className="space-y-3 sticky top-0 bg-green-50 z-10 py-2">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            placeholder="Buscar por nome, categoria ou curiosidade..."
+            className="flex-1 min-w-0 p-3 rounded-lg border border-gray-200 focus:ring-2 focus:ring-emerald-500 focus:outline-none shadow-sm"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+          />
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center gap-1 px-3 rounded-lg border text-sm font-semibold shadow-sm ${
+              activeFilterCount > 0 ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+            }`}
+            title="Filtros"
           >
-            Próxima <ChevronRight size={20} />
+            <SlidersHorizontal size={18} />
+            {activeFilterCount > 0 && activeFilterCount}
           </button>
-        ) : (
-          <button 
-             onClick={handleFinish}
-             className="flex items-center justify-center gap-2 bg-emerald-800 text-white py-3 rounded-xl font-bold hover:bg-emerald-900 active:scale-95 transition-transform"
+        </div>
+
+        {showFilters && (
+          <div className="bg-white p-4 rounded-xl shadow-sm border border-emerald-100 space-y-3 max-h-[60vh] overflow-y-auto">
+            <div>
+              <p className="text-sm text-gray-500 mb-2">Categoria</p>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(category => (
+                  <button key={category} onClick={() => updateFilters({ categories: toggleItem(filters.categories, category) })} className={chipClass(filters.categories.includes(category))}>
+                    {category}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 mb-2">Luminosidade</p>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(LightRequirement).map(light => (
+                  <button key={light} onClick={() => updateFilters({ lights: toggleItem(filters.lights, light) })} className={chipClass(filters.lights.includes(light))}>
+                    {light}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 mb-2">Foto</p>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(PHOTO_FILTER_LABELS) as PhotoFilter[]).map(photo => (
+                  <button key={photo} onClick={() => updateFilters({ photos: toggleItem(filters.photos, photo) })} className={chipClass(filters.photos.includes(photo))}>
+                    {PHOTO_FILTER_LABELS[photo]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 mb-2">Seu estudo</p>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(STUDY_STATUS_LABELS) as StudyStatusFilter[]).map(status => (
+                  <button key={status} onClick={() => updateFilters({ statuses: toggleItem(filters.statuses, status) })} className={chipClass(filters.statuses.includes(status))}>
+                    {STUDY_STATUS_LABELS[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <label className="flex items-center justify-between gap-2 text-sm text-gray-500">
+              Ordenar por
+              <select
+                value={filters.sort}
+                onChange={(e) => updateFilters({ sort: e.target.value as PlantSort })}
+                className="p-2 rounded-lg border border-gray-200 text-gray-700 focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+              >
+                {(Object.keys(PLANT_SORT_LABELS) as PlantSort[]).map(sort => (
+                  <option key={sort} value={sort}>{PLANT_SORT_LABELS[sort]}</option>
+                ))}
+              </select>
+            </label>
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={() => updateFilters({ ...DEFAULT_PLANT_FILTERS, query: filters.query })}
+                disabled={activeFilterCount === 0 && filters.sort === DEFAULT_PLANT_FILTERS.sort}
+                className="flex-1 py-2 text-sm font-semibold text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Limpar filtros
+              </button>
+              <button
+                onClick={copyLink}
+                className="flex-1 flex items-center justify-center gap-1 py-2 text-sm font-semibold text-emerald-700 border border-emerald-200 rounded-lg hover:bg-emerald-50"
+              >
+                {linkCopied ? <><Check size={14} /> Link copiado</> : <><Link2 size={14} /> Copiar link</>}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500">
+          {filteredPlants.length} de {plants.length} plantas
+        </p>
+      </div>
+
+      <div className="grid gap-3 pb-20">
+        {filteredPlants.map((plant) => (
+          <Link
+            key={plant.id}
+            to={{ pathname: `/plant/${plant.id}`, search: location.search }}
+            state={{ fromList: true }}
+            className="flex items-center gap-4 p-3 bg-white rounded-xl shadow-sm border border-emerald-50 hover:border-emerald-300 transition-all cursor-pointer"
           >
-            Finalizar <CheckCircle size={20} />
-          </button>
+            <div className="relative w-16 h-16 rounded-lg bg-gray-100 overflow-hidden flex-shrink-0">
+               <img src={plant.imageUrl} alt={plant.commonName} loading="lazy" className="w-full h-full object-cover" />
+               {plant.photos && (
+                 <div className="absolute bottom-0 right-0 bg-emerald-500 text-white p-0.5 rounded-tl-md">
+                   <CheckCircle size={10} />
+                 </div>
+               )}
+            </div>
+            
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold text-gray-800 truncate">{plant.commonName}</h3>
+              <p className="text-xs text-emerald-600 italic truncate">{plant.scientificName}</p>
+              <div className="mt-1">
+                 <LightBadge type={plant.light} />
+              </div>
+            </div>
+          </Link>
+        ))}
+        {filteredPlants.length === 0 && (
+          <div className="text-center py-10 text-gray-500">
+            Nenhuma planta encontrada.
+          </div>
         )}
       </div>
     </div>
   );
 };
 
-const StudyPage = () => {
-  const { plants, updatePlantImage, resetImage } = usePlantDatabase();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filterLight, setFilterLight] = useState<string>('all');
-  const [selectedPlant, setSelectedPlant] = useState<Plant | null>(null);
+// The full card of one plant; previous and next follow the study list with the filters it came from
+const PlantDetailPage = () => {
+  const { id } = useParams();
+  const { plants, isLoadingImages, addPlantPhoto, removePlantPhoto } = usePlantDatabase();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const [study] = useState(loadPlantStudyState);
   const [isUploading, setIsUploading] = useState(false);
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const [newPhotoLabel, setNewPhotoLabel] = useState<PhotoLabel>('GERAL');
+  const fromList = !!(location.state as { fromList?: boolean } | null)?.fromList;
 
-  const filteredPlants = useMemo(() => {
-    return plants.filter(p => {
-      const matchesSearch = p.commonName.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                            p.scientificName.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesLight = filterLight === 'all' || p.light === filterLight;
-      return matchesSearch && matchesLight;
-    });
-  }, [searchTerm, filterLight, plants]);
+  useEffect(() => {
+    setPhotoIndex(0);
+    window.scrollTo(0, 0);
+  }, [id]);
+
+  const filters = useMemo(() => parsePlantFilters(searchParams), [searchParams]);
+  const list = useMemo(() => filterPlants(plants, filters, study), [plants, filters, study]);
+  const plant = plants.find(p => p.id === id);
+  const position = list.findIndex(p => p.id === id);
+  const previous = position > 0 ? list[position - 1] : undefined;
+  const next = position >= 0 && position < list.length - 1 ? list[position + 1] : undefined;
+
+  // Stepping through plants replaces the entry, so going back always returns to the list
+  const goTo = (other: Plant) =>
+    navigate({ pathname: `/plant/${other.id}`, search: location.search }, { replace: true, state: location.state });
+
+  const goBack = () => {
+    if (fromList) navigate(-1);
+    else navigate({ pathname: '/study', search: location.search });
+  };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, plant: Plant) => {
     if (e.target.files && e.target.files[0]) {
       setIsUploading(true);
-      const success = await updatePlantImage(plant.id, e.target.files[0]);
-      if (success) {
-        // Just clear the selection for a split second to refresh
-        const reader = new FileReader();
-        reader.onload = (ev) => {
-            setSelectedPlant(prev => prev ? { ...prev, imageUrl: ev.target?.result as string } : null);
-        };
-        reader.readAsDataURL(e.target.files[0]);
-      }
+      await addPlantPhoto(plant.id, e.target.files[0], newPhotoLabel);
+      e.target.value = '';
       setIsUploading(false);
     }
   };
 
-  // Detail Modal
-  if (selectedPlant) {
-    const hasCustomImage = selectedPlant.imageUrl.startsWith('data:');
-
+  if (!plant) {
+    if (isLoadingImages) return <div>Carregando...</div>;
     return (
-      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
-        <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto relative flex flex-col">
-          <button 
-            onClick={() => setSelectedPlant(null)}
-            className="absolute top-4 right-4 bg-white/80 p-2 rounded-full hover:bg-gray-100 z-10"
-          >
-            <X size={24} />
-          </button>
+      <div className="flex flex-col items-center justify-center space-y-4 py-10 text-center">
+        <p className="text-gray-600">Planta não encontrada. Ela pode ter sido removida do catálogo.</p>
+        <Link to="/study" className="px-6 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700">Voltar ao catálogo</Link>
+      </div>
+    );
+  }
+
+  const images = getPlantImages(plant);
+  const currentImage = images[Math.min(photoIndex, images.length - 1)];
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center gap-2">
+        <button onClick={goBack} className="p-2 hover:bg-gray-200 rounded-full" title="Voltar à lista"><ArrowLeft size={20} /></button>
+        <span className="flex-1 text-sm font-medium text-gray-500">
+          {position >= 0 && `${position + 1} de ${list.length}`}
+        </span>
+        <button
+          onClick={() => previous && goTo(previous)}
+          disabled={!previous}
+          className="p-2 hover:bg-gray-200 rounded-full disabled:opacity-30 disabled:hover:bg-transparent"
+          title="Planta anterior"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <button
+          onClick={() => next && goTo(next)}
+          disabled={!next}
+          className="p-2 hover:bg-gray-200 rounded-full disabled:opacity-30 disabled:hover:bg-transparent"
+          title="Próxima planta"
+        >
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg overflow-hidden">
+        <div className="relative group">
+          <PhotoGallery key={plant.id} images={images} alt={plant.commonName} className="h-72" onIndexChange={setPhotoIndex} />
+          {/* Upload Button Overlay */}
+          <div className="absolute bottom-4 right-4 flex gap-2">
+             {currentImage.photoId && (
+               <button 
+                 onClick={() => {
+                   const message = images.length > 1 ? "Deseja remover esta foto?" : "Deseja realmente remover sua foto e voltar para a original?";
+                   if(window.confirm(message)) removePlantPhoto(currentImage.photoId!);
+                 }}
+                 className="bg-red-500 text-white p-3 rounded-full shadow-lg hover:bg-red-600 transition-transform hover:scale-105"
+                 title="Remover esta foto"
+               >
+                 <Trash2 size={20} />
+               </button>
+             )}
+             <select
+               value={newPhotoLabel}
+               onChange={(e) => setNewPhotoLabel(e.target.value as PhotoLabel)}
+               className="bg-white/90 text-sm font-medium text-gray-700 px-3 rounded-full shadow-lg outline-none"
+               title="Tipo da nova foto"
+             >
+               {Object.entries(PHOTO_LABELS).map(([value, label]) => (
+                 <option key={value} value={value}>{label}</option>
+               ))}
+             </select>
+             <label className="bg-emerald-600 text-white p-3 rounded-full shadow-lg cursor-pointer hover:bg-emerald-700 transition-transform hover:scale-105 flex items-center justify-center">
+               {isUploading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <Camera size={20} />}
+               <input 
+                 type="file" 
+                 className="hidden" 
+                 accept="image/*"
+                 onChange={(e) => handleFileUpload(e, plant)}
+               />
+             </label>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-800">{plant.commonName}</h2>
+            <p className="text-lg text-emerald-600 italic font-medium">{plant.scientificName}</p>
+          </div>
           
-          <div className="relative group">
-            <img 
-              src={selectedPlant.imageUrl} 
-              alt={selectedPlant.commonName} 
-              className="w-full h-72 object-cover"
-            />
-            {/* Upload Button Overlay */}
-            <div className="absolute bottom-4 right-4 flex gap-2">
-               {hasCustomImage && (
-                 <button 
-                   onClick={() => {
-                     if(window.confirm("Deseja realmente remover sua foto e voltar para a original?")) {
-                       resetImage(selectedPlant.id);
-                       setSelectedPlant(prev => prev ? {...prev, imageUrl: PLANT_DATABASE.find(p => p.id === prev.id)?.imageUrl || ''} : null);
-                     }
-                   }}
-                   className="bg-red-500 text-white p-3 rounded-full shadow-lg hover:bg-red-600 transition-transform hover:scale-105"
-                   title="Restaurar imagem original"
-                 >
-                   <RefreshCw size={20} />
-                 </button>
-               )}
-               <label className="bg-emerald-600 text-white p-3 rounded-full shadow-lg cursor-pointer hover:bg-emerald-700 transition-transform hover:scale-105 flex items-center justify-center">
-                 {isUploading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <Camera size={20} />}
-                 <input 
-                   type="file" 
-                   className="hidden" 
-                   accept="image/*"
-                   onChange={(e) => handleFileUpload(e, selectedPlant)}
-                 />
-               </label>
-            </div>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+             <div className="bg-gray-50 p-3 rounded-lg">
+               <p className="text-gray-500 mb-1">Luminosidade</p>
+               <LightBadge type={plant.light} />
+             </div>
+             <div className="bg-gray-50 p-3 rounded-lg">
+               <p className="text-gray-500 mb-1">Categoria</p>
+               <span className="font-semibold text-gray-800">{plant.category}</span>
+             </div>
+          </div>
+
+          <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
+             <h4 className="font-bold text-amber-800 mb-2">Curiosidade</h4>
+             <p className="text-amber-900">{plant.trivia}</p>
+          </div>
+
+          <CareGuide plant={plant} />
+
+          <Link
+            to={`/catalog?edit=${plant.id}`}
+            className="flex items-center justify-center gap-2 w-full py-2 text-sm font-semibold text-gray-600 border border-gray-200 rounded-lg hover:bg-gray-50"
+          >
+            <Pencil size={14} /> Editar ficha
+          </Link>
+
+          <div className="bg-blue-50 p-3 rounded-lg flex items-start gap-3 text-sm text-blue-800">
+            <Upload size={16} className="mt-1 flex-shrink-0" />
+            <p>
+              Dica: Clique no ícone de câmera na foto acima para enviar uma foto real desta planta,
+              ou use a <Link to="/photos" className="underline font-semibold">sessão de fotos</Link> para fotografar várias seguidas.
+            </p>
           </div>
+        </div>
+      </div>
+
+      {position >= 0 && (
+        <div className="grid grid-cols-2 gap-4 pb-4">
+          <button
+            onClick={() => previous && goTo(previous)}
+            disabled={!previous}
+            className="flex items-center justify-center gap-2 bg-white border-2 border-emerald-600 text-emerald-600 py-3 rounded-xl font-bold hover:bg-emerald-50 disabled:border-gray-200 disabled:text-gray-300 disabled:hover:bg-white"
+          >
+            <ChevronLeft size={20} /> Anterior
+          </button>
+          <button
+            onClick={() => next && goTo(next)}
+            disabled={!next}
+            className="flex items-center justify-center gap-2 bg-emerald-600 text-white py-3 rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300"
+          >
+            Próxima <ChevronRight size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PhotoSessionPage = () => {
+  const { plants, addPlantPhoto, isLoadingImages } = usePlantDatabase();
+  const [queue, setQueue] = useState<Plant[] | null>(null);
+  const [index, setIndex] = useState(0);
+  const [captured, setCaptured] = useState<{ url: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [label, setLabel] = useState<PhotoLabel>('GERAL');
+  const [savedCount, setSavedCount] = useState(0);
+  const cameraRef = useRef<HTMLInputElement>(null);
+
+  // The context's plants already carry the photos taken in the app
+  const withPhotoCount = plants.filter(hasRealPhoto).length;
+
+  // The list is fixed when the session starts, so saving a photo doesn't shift the remaining plants
+  useEffect(() => {
+    if (!isLoadingImages && queue === null) setQueue(plants.filter(p => !hasRealPhoto(p)));
+  }, [isLoadingImages, plants, queue]);
+
+  useEffect(() => () => {
+    if (captured) URL.revokeObjectURL(captured.url);
+  }, [captured]);
+
+  const openCamera = () => cameraRef.current?.click();
+
+  const handleCapture = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setCaptured({ url: URL.createObjectURL(file) });
+  };
+
+  const goToNext = () => {
+    setCaptured(null);
+    setIndex(prev => prev + 1);
+  };
+
+  const handleSave = async (file: File) => {
+    if (!queue) return;
+    setIsSaving(true);
+    const success = await addPlantPhoto(queue[index].id, file, label);
+    setIsSaving(false);
+    if (success) {
+      setSavedCount(prev => prev + 1);
+      goToNext();
+    }
+  };
+
+  if (isLoadingImages || !queue) return <div>Carregando...</div>;
+
+  const plant = queue[index];
+  const coverage = plants.length > 0 ? Math.round((withPhotoCount / plants.length) * 100) : 0;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/study" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800">Sessão de Fotos</h1>
+      </div>
 
-          <div className="p-6 space-y-4">
+      <div className="bg-white p-4 rounded-xl shadow-sm border border-emerald-100">
+        <div className="flex justify-between text-sm mb-2">
+          <span className="text-gray-700">Plantas com foto real</span>
+          <span className="font-semibold text-gray-800">{withPhotoCount} de {plants.length} ({coverage}%)</span>
+        </div>
+        <div className="w-full bg-gray-100 rounded-full h-2">
+          <div className="bg-emerald-500 h-2 rounded-full transition-all" style={{ width: `${coverage}%` }}></div>
+        </div>
+      </div>
+
+      <input ref={cameraRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleCapture} />
+
+      {!plant ? (
+        <div className="flex flex-col items-center text-center space-y-4 py-8">
+          <CheckCircle className="w-16 h-16 text-emerald-500" />
+          <h2 className="text-xl font-bold text-gray-800">
+            {queue.length === 0 ? 'Todas as plantas já têm foto real!' : 'Sessão concluída!'}
+          </h2>
+          {queue.length > 0 && (
+            <p className="text-gray-600">{savedCount} {savedCount === 1 ? 'foto salva' : 'fotos salvas'} · {queue.length - savedCount} {queue.length - savedCount === 1 ? 'planta pulada' : 'plantas puladas'}</p>
+          )}
+          <Link to="/study" className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700">Voltar ao catálogo</Link>
+        </div>
+      ) : (
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-start justify-between gap-2">
             <div>
-              <h2 className="text-3xl font-bold text-gray-800">{selectedPlant.commonName}</h2>
-              <p className="text-lg text-emerald-600 italic font-medium">{selectedPlant.scientificName}</p>
-            </div>
-            
-            <div className="grid grid-cols-2 gap-4 text-sm">
-               <div className="bg-gray-50 p-3 rounded-lg">
-                 <p className="text-gray-500 mb-1">Luminosidade</p>
-                 <LightBadge type={selectedPlant.light} />
-               </div>
-               <div className="bg-gray-50 p-3 rounded-lg">
-                 <p className="text-gray-500 mb-1">Categoria</p>
-                 <span className="font-semibold text-gray-800">{selectedPlant.category}</span>
-               </div>
+              <p className="text-xs text-gray-500 uppercase tracking-wide">Planta {index + 1} de {queue.length}</p>
+              <h2 className="text-xl font-bold text-gray-800">{plant.commonName}</h2>
+              <p className="text-sm text-emerald-600 italic">{plant.scientificName}</p>
             </div>
+            <LightBadge type={plant.light} />
+          </div>
 
-            <div className="bg-amber-50 p-4 rounded-xl border border-amber-100">
-               <h4 className="font-bold text-amber-800 mb-2">Curiosidade</h4>
-               <p className="text-amber-900">{selectedPlant.trivia}</p>
-            </div>
+          {captured ? (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(PHOTO_LABELS) as PhotoLabel[]).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setLabel(value)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                      label === value ? 'bg-emerald-600 text-white shadow-md' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {PHOTO_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+              <PhotoCropper src={captured.url} onConfirm={handleSave} onRetake={openCamera} isSaving={isSaving} />
+            </>
+          ) : (
+            <>
+              <div className="relative">
+                <img src={plant.imageUrl} alt={plant.commonName} className="w-full aspect-square object-cover rounded-xl opacity-60" />
+                <span className="absolute top-2 left-2 bg-white/90 text-xs font-semibold text-gray-600 px-2 py-1 rounded-full">Imagem provisória</span>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <button onClick={goToNext} className="flex items-center justify-center gap-1 py-3 bg-gray-200 text-gray-800 rounded-xl font-bold hover:bg-gray-300">
+                  <SkipForward size={18} /> Pular
+                </button>
+                <button onClick={openCamera} className="col-span-2 flex items-center justify-center gap-2 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700">
+                  <Camera size={18} /> Fotografar
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
 
-            <div className="bg-blue-50 p-3 rounded-lg flex items-start gap-3 text-sm text-blue-800">
-              <Upload size={16} className="mt-1 flex-shrink-0" />
-              <p>Dica: Clique no ícone de câmera na foto acima para enviar uma foto real desta planta.</p>
-            </div>
+const QUIZ_PRESETS: { label: string; config: QuizConfig }[] = [
+  { label: 'Quiz do Dia (3)', config: DAILY_QUIZ_CONFIG },
+  { label: 'Treino 10', config: { ...DAILY_QUIZ_CONFIG, questionCount: 10 } },
+  { label: 'Treino 20', config: { ...DAILY_QUIZ_CONFIG, questionCount: 20 } },
+];
+
+const toggleItem = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+const chipClass = (active: boolean) =>
+  `whitespace-nowrap px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+    active ? 'bg-emerald-600 text-white shadow-md' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+  }`;
+
+const QuizSetup = ({ plants, studiedIds, onStart }: { plants: Plant[]; studiedIds: Set<string>; onStart: (config: QuizConfig) => void }) => {
+  const [config, setConfig] = useState<QuizConfig>(DAILY_QUIZ_CONFIG);
+
+  const categories = useMemo(
+    () => Array.from(new Set(plants.map(p => p.category))).sort((a, b) => a.localeCompare(b, 'pt-BR')),
+    [plants]
+  );
+  const scopeSize = getQuizScope(plants, config, studiedIds).length;
+  const canStart = scopeSize > 0 && config.types.length > 0 && config.questionCount > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800">Montar Quiz</h1>
+      </div>
 
-            <button 
-              onClick={() => setSelectedPlant(null)}
-              className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700"
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Perguntas</h3>
+        <div className="flex flex-wrap gap-2">
+          {QUIZ_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => setConfig(prev => ({ ...prev, questionCount: preset.config.questionCount }))}
+              className={chipClass(config.questionCount === preset.config.questionCount)}
             >
-              Fechar Ficha
+              {preset.label}
             </button>
-          </div>
+          ))}
+        </div>
+        <label className="flex items-center justify-between text-sm text-gray-600">
+          Quantidade personalizada
+          <input
+            type="number"
+            min={1}
+            max={50}
+            value={config.questionCount}
+            onChange={(e) => setConfig(prev => ({ ...prev, questionCount: Math.max(0, Math.min(50, Number(e.target.value) || 0)) }))}
+            className="w-20 p-2 rounded-lg border border-gray-200 text-right focus:ring-2 focus:ring-emerald-500 focus:outline-none"
+          />
+        </label>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Tipos de Pergunta</h3>
+        <div className="flex flex-wrap gap-2">
+          {ALL_QUESTION_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => setConfig(prev => ({ ...prev, types: toggleItem(prev.types, type) }))}
+              className={chipClass(config.types.includes(type))}
+            >
+              {QUESTION_TYPE_LABELS[type]}
+            </button>
+          ))}
         </div>
       </div>
-    );
-  }
 
-  return (
-    <div className="space-y-4 h-full flex flex-col">
-      <div className="flex items-center gap-2 mb-2">
-        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
-        <h1 className="text-2xl font-bold text-gray-800">Catálogo de Plantas</h1>
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Modo de Resposta</h3>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setConfig(prev => ({ ...prev, answerMode: 'CHOICE' }))} className={chipClass(config.answerMode === 'CHOICE')}>
+            Múltipla escolha
+          </button>
+          <button onClick={() => setConfig(prev => ({ ...prev, answerMode: 'TYPED' }))} className={chipClass(config.answerMode === 'TYPED')}>
+            Digitar o nome
+          </button>
+        </div>
+        {config.answerMode === 'TYPED' && (
+          <p className="text-xs text-gray-500">Perguntas de nome são respondidas digitando. Acentos e maiúsculas não contam; pequenos erros valem meio ponto.</p>
+        )}
       </div>
 
-      <div className="space-y-3 sticky top-0 bg-green-50 z-10 py-2">
-        <input 
-          type="text" 
-          placeholder="Buscar por nome..." 
-          className="w-full p-3 rounded-lg border border-gray-200 focus:ring-2 focus:ring-emerald-500 focus:outline-none shadow-sm"
-          value={searchTerm}
-          onChange={(e) => setSearchTerm(e.target.value)}
-        />
-        <div className="flex gap-2 overflow-x-auto pb-2 scrollbar-hide">
-          {['all', LightRequirement.FULL_SUN, LightRequirement.PARTIAL_SHADE, LightRequirement.SHADE].map((f) => (
-             <button
-               key={f}
-               onClick={() => setFilterLight(f)}
-               className={`whitespace-nowrap px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                 filterLight === f 
-                 ? 'bg-emerald-600 text-white shadow-md' 
-                 : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
-               }`}
-             >
-               {f === 'all' ? 'Todas' : f}
-             </button>
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Dificuldade</h3>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(DIFFICULTY_LABELS) as QuizDifficulty[]).map(difficulty => (
+            <button
+              key={difficulty}
+              onClick={() => setConfig(prev => ({ ...prev, difficulty }))}
+              className={chipClass(config.difficulty === difficulty)}
+            >
+              {DIFFICULTY_LABELS[difficulty]}
+            </button>
           ))}
         </div>
+        <p className="text-xs text-gray-500">No difícil, as alternativas são plantas parecidas: mesmo gênero ou mesma categoria.</p>
       </div>
 
-      <div className="grid gap-3 pb-20">
-        {filteredPlants.map((plant) => (
-          <div 
-            key={plant.id} 
-            onClick={() => setSelectedPlant(plant)}
-            className="flex items-center gap-4 p-3 bg-white rounded-xl shadow-sm border border-emerald-50 hover:border-emerald-300 transition-all cursor-pointer"
-          >
-            <div className="relative w-16 h-16 rounded-lg bg-gray-100 overflow-hidden flex-shrink-0">
-               <img src={plant.imageUrl} alt={plant.commonName} className="w-full h-full object-cover" />
-               {plant.imageUrl.startsWith('data:') && (
-                 <div className="absolute bottom-0 right-0 bg-emerald-500 text-white p-0.5 rounded-tl-md">
-                   <CheckCircle size={10} />
-                 </div>
-               )}
-            </div>
-            
-            <div className="flex-1 min-w-0">
-              <h3 className="font-bold text-gray-800 truncate">{plant.commonName}</h3>
-              <p className="text-xs text-emerald-600 italic truncate">{plant.scientificName}</p>
-              <div className="mt-1">
-                 <LightBadge type={plant.light} />
-              </div>
-            </div>
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Quais Plantas</h3>
+        <div>
+          <p className="text-sm text-gray-500 mb-2">Categorias (nenhuma = todas)</p>
+          <div className="flex flex-wrap gap-2">
+            {categories.map(category => (
+              <button
+                key={category}
+                onClick={() => setConfig(prev => ({ ...prev, categories: toggleItem(prev.categories, category) }))}
+                className={chipClass(config.categories.includes(category))}
+              >
+                {category}
+              </button>
+            ))}
           </div>
-        ))}
-        {filteredPlants.length === 0 && (
-          <div className="text-center py-10 text-gray-500">
-            Nenhuma planta encontrada.
+        </div>
+        <div>
+          <p className="text-sm text-gray-500 mb-2">Luminosidade (nenhuma = todas)</p>
+          <div className="flex flex-wrap gap-2">
+            {Object.values(LightRequirement).map(light => (
+              <button
+                key={light}
+                onClick={() => setConfig(prev => ({ ...prev, lights: toggleItem(prev.lights, light) }))}
+                className={chipClass(config.lights.includes(light))}
+              >
+                {light}
+              </button>
+            ))}
           </div>
-        )}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.onlyStudied}
+            onChange={(e) => setConfig(prev => ({ ...prev, onlyStudied: e.target.checked }))}
+            className="w-4 h-4 accent-emerald-600"
+          />
+          Somente plantas que já estudei ({studiedIds.size})
+        </label>
       </div>
+
+      <p className="text-sm text-center text-gray-500">{scopeSize} plantas disponíveis para este quiz.</p>
+
+      <button
+        onClick={() => onStart(config)}
+        disabled={!canStart}
+        className="w-full py-4 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+      >
+        Começar Quiz
+      </button>
+    </div>
+  );
+};
+
+// Kept for the review shown when the quiz ends
+interface AnsweredQuestion {
+  question: QuizQuestion;
+  chosenOption: string;
+  credit: number;
+}
+
+// Every question of the finished quiz with what was answered, and the plant's card as the explanation
+const QuizReview = ({ answered, plants }: { answered: AnsweredQuestion[]; plants: Plant[] }) => {
+  const plantsById = useMemo(() => new Map(plants.map(p => [p.id, p])), [plants]);
+
+  return (
+    <div className="w-full space-y-3">
+      <h3 className="font-bold text-gray-800 text-lg">Revisão</h3>
+      {answered.map(({ question, chosenOption, credit }) => {
+        const plant = plantsById.get(question.plantId);
+        const resultClass = credit >= 1 ? 'text-green-700' : credit > 0 ? 'text-amber-700' : 'text-red-700';
+        return (
+          <div key={question.id} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-3">
+            <div className="flex gap-3">
+              <img
+                src={question.imageUrl || plant?.imageUrl}
+                alt={plant?.commonName || ''}
+                className="w-16 h-16 rounded-lg object-cover flex-shrink-0 bg-gray-100"
+              />
+              <div className="flex-1 min-w-0 text-sm space-y-1">
+                <p className="font-semibold text-gray-800">{question.id}. {question.questionText}</p>
+                {question.supportingText && <p className="text-gray-500 italic">"{question.supportingText}"</p>}
+                <p className="flex items-start gap-1">
+                  {credit >= 1 ? <CheckCircle size={16} className="text-green-600 mt-0.5 flex-shrink-0" /> : <XCircle size={16} className={`${resultClass} mt-0.5 flex-shrink-0`} />}
+                  <span>Sua resposta: <strong className={resultClass}>{chosenOption}</strong></span>
+                </p>
+                {credit < 1 && <p className="text-gray-700">Resposta certa: <strong>{question.correctAnswer}</strong></p>}
+              </div>
+            </div>
+            {plant && (
+              <div className="bg-amber-50 p-3 rounded-lg border border-amber-100 text-sm">
+                <Link to={`/plant/${plant.id}`} className="font-semibold text-amber-900 hover:underline">{plant.commonName}</Link>
+                <span className="text-emerald-700 italic"> · {plant.scientificName}</span>
+                <p className="text-amber-900 mt-1">{plant.trivia}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
     </div>
   );
 };
 
 const QuizPage = () => {
   const { plants, isLoadingImages } = usePlantDatabase();
+  const [studiedIds] = useState(() => getStudiedPlantIds(getInitialProgress()));
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>(DAILY_QUIZ_CONFIG.difficulty);
+  const [answered, setAnswered] = useState<AnsweredQuestion[]>([]);
   const [currentQIndex, setCurrentQIndex] = useState(0);
-  const [score, setScore] = useState(0);
+  const [score, setScore] = useState(0); // answers fully right
+  const [points, setPoints] = useState(0); // with partial credit for typed answers
   const [isFinished, setIsFinished] = useState(false);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isAnswered, setIsAnswered] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [typedResult, setTypedResult] = useState<TypedAnswerResult | null>(null);
+
+  const clearAnswer = () => {
+    setSelectedOption(null);
+    setIsAnswered(false);
+    setTypedAnswer('');
+    setTypedResult(null);
+  };
 
-  useEffect(() => {
-    if (!isLoadingImages && plants.length > 0) {
-        generateDailyQuiz();
-    }
-  }, [isLoadingImages, plants]);
-
-  const generateDailyQuiz = () => {
-    const q1Plant = getRandomPlantsFromList(plants, 4); // 1 correct, 3 wrong
-    const q2Plant = getRandomPlantsFromList(plants, 1)[0];
-    const q3Plant = getRandomPlantsFromList(plants, 4); // 1 correct, 3 wrong
-
-    // Q1: Scientific -> Common
-    const q1: QuizQuestion = {
-      id: 1,
-      type: 'SCIENTIFIC_TO_COMMON',
-      questionText: `Qual o nome popular da planta "${q1Plant[0].scientificName}"?`,
-      correctAnswer: q1Plant[0].commonName,
-      options: q1Plant.map(p => p.commonName).sort(() => Math.random() - 0.5)
-    };
+  const beginQuiz = (newQuestions: QuizQuestion[]) => {
+    setQuestions(newQuestions);
+    setAnswered([]);
+    setCurrentQIndex(0);
+    setScore(0);
+    setPoints(0);
+    clearAnswer();
+    setIsFinished(false);
+  };
 
-    // Q2: Common -> Light
-    const q2: QuizQuestion = {
-      id: 2,
-      type: 'COMMON_TO_LIGHT',
-      questionText: `Qual a luminosidade ideal para a planta "${q2Plant.commonName}"?`,
-      correctAnswer: q2Plant.light,
-      options: [LightRequirement.FULL_SUN, LightRequirement.PARTIAL_SHADE, LightRequirement.SHADE].sort(() => Math.random() - 0.5)
-    };
+  const startQuiz = (config: QuizConfig) => {
+    setDifficulty(config.difficulty);
+    beginQuiz(generateQuiz(plants, config, studiedIds));
+  };
 
-    // Q3: Photo -> Common
-    const q3: QuizQuestion = {
-      id: 3,
-      type: 'PHOTO_TO_COMMON',
-      questionText: "Qual o nome desta planta?",
-      imageUrl: q3Plant[0].imageUrl,
-      correctAnswer: q3Plant[0].commonName,
-      options: q3Plant.map(p => p.commonName).sort(() => Math.random() - 0.5)
-    };
+  // Partially right typed answers count as missed, so the spelling gets practiced too
+  const missedQuestions = answered.filter(a => a.credit < 1).map(a => a.question);
+
+  const retryMissed = () => beginQuiz(buildRetryQuiz(missedQuestions, plants, difficulty));
+
+  const resetQuiz = () => {
+    setQuestions([]);
+    setIsFinished(false);
+  };
 
-    setQuestions([q1, q2, q3]);
+  const registerAnswer = (answer: string, credit: number) => {
+    setSelectedOption(answer);
+    setIsAnswered(true);
+    setScore(prev => prev + (credit >= 1 ? 1 : 0));
+    setPoints(prev => prev + credit);
+    setAnswered(prev => [...prev, { question: questions[currentQIndex], chosenOption: answer, credit }]);
+    recordQuizAnswer(questions[currentQIndex], answer, credit);
   };
 
   const handleAnswer = (option: string) => {
     if (isAnswered) return;
-    setSelectedOption(option);
-    setIsAnswered(true);
+    registerAnswer(option, option === questions[currentQIndex].correctAnswer ? 1 : 0);
+  };
 
-    if (option === questions[currentQIndex].correctAnswer) {
-      setScore(prev => prev + 1);
-    }
+  const handleTypedSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isAnswered || !typedAnswer.trim()) return;
+    const result = gradeTypedAnswer(typedAnswer, questions[currentQIndex].correctAnswer);
+    setTypedResult(result);
+    registerAnswer(typedAnswer.trim(), result.credit);
   };
 
   const nextQuestion = () => {
-    if (currentQIndex < 2) {
+    if (currentQIndex < questions.length - 1) {
       setCurrentQIndex(prev => prev + 1);
-      setSelectedOption(null);
-      setIsAnswered(false);
+      clearAnswer();
     } else {
       finishQuiz();
     }
@@ -790,29 +2795,48 @@ const QuizPage = () => {
   const finishQuiz = () => {
     setIsFinished(true);
     const progress = getInitialProgress();
+    const today = getTodayKey();
     
-    saveProgress({
+    saveProgressAndSync({
       ...progress,
-      quizTotalQuestions: progress.quizTotalQuestions + 3,
-      quizCorrectAnswers: progress.quizCorrectAnswers + score + (selectedOption === questions[currentQIndex].correctAnswer ? 1 : 0),
-      history: [...progress.history, { date: new Date().toISOString().split('T')[0], type: 'QUIZ', score: score }]
+      ...registerActivity(progress, today),
+      quizTotalQuestions: progress.quizTotalQuestions + questions.length,
+      quizCorrectAnswers: progress.quizCorrectAnswers + score,
+      history: [...progress.history, { date: today, type: 'QUIZ', score, points, plantIds: questions.map(q => q.plantId) }]
     });
   };
 
-  if (isLoadingImages || questions.length === 0) return <div>Carregando Quiz...</div>;
+  if (isLoadingImages) return <div>Carregando Quiz...</div>;
+
+  if (questions.length === 0) {
+    return <QuizSetup plants={plants} studiedIds={studiedIds} onStart={startQuiz} />;
+  }
 
   if (isFinished) {
     return (
-      <div className="flex flex-col items-center justify-center space-y-6 py-10 animate-fade-in h-full">
-        <Trophy className={`w-24 h-24 ${score === 3 ? 'text-yellow-500' : 'text-gray-400'}`} />
+      <div className="flex flex-col items-center space-y-6 py-10 animate-fade-in">
+        <Trophy className={`w-24 h-24 ${score === questions.length ? 'text-yellow-500' : 'text-gray-400'}`} />
         <div className="text-center">
           <h2 className="text-3xl font-bold text-gray-800">Resultado</h2>
-          <p className="text-xl mt-2">Você acertou <span className="font-bold text-emerald-600">{score}</span> de 3!</p>
+          <p className="text-xl mt-2">Você acertou <span className="font-bold text-emerald-600">{score}</span> de {questions.length}!</p>
+          {points > score && (
+            <p className="text-sm text-gray-500 mt-1">{points.toLocaleString('pt-BR')} pontos, com meio ponto pelas respostas quase certas.</p>
+          )}
         </div>
-        
+
+        {missedQuestions.length > 0 && (
+          <button onClick={retryMissed} className="w-full max-w-xs flex items-center justify-center gap-2 bg-amber-500 text-white py-3 rounded-xl font-bold hover:bg-amber-600">
+            <RotateCcw size={20} /> Refazer só as que errei ({missedQuestions.length})
+          </button>
+        )}
+        <button onClick={resetQuiz} className="w-full max-w-xs bg-white border-2 border-emerald-600 text-emerald-700 py-3 rounded-xl font-bold text-center hover:bg-emerald-50">
+          Novo Quiz
+        </button>
         <Link to="/" className="w-full max-w-xs bg-emerald-600 text-white py-3 rounded-xl font-bold text-center hover:bg-emerald-700">
           Voltar ao Início
         </Link>
+
+        <QuizReview answered={answered} plants={plants} />
       </div>
     );
   }
@@ -824,48 +2848,97 @@ const QuizPage = () => {
       <div className="flex items-center gap-2 mb-6">
          <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
          <div className="flex-1 bg-gray-200 h-2 rounded-full overflow-hidden">
-           <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${((currentQIndex + 1) / 3) * 100}%` }}></div>
+           <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${((currentQIndex + 1) / questions.length) * 100}%` }}></div>
          </div>
-         <span className="text-sm font-bold text-gray-500">{currentQIndex + 1}/3</span>
+         <span className="text-sm font-bold text-gray-500">{currentQIndex + 1}/{questions.length}</span>
       </div>
 
       <div className="bg-white p-6 rounded-2xl shadow-lg flex-grow flex flex-col">
         <h2 className="text-xl font-bold text-gray-800 mb-6">{currentQ.questionText}</h2>
+
+        {currentQ.supportingText && (
+          <blockquote className="bg-yellow-50 p-4 rounded-lg border border-yellow-100 text-yellow-900 italic mb-6">
+            "{currentQ.supportingText}"
+          </blockquote>
+        )}
         
         {currentQ.imageUrl && (
-          <img src={currentQ.imageUrl} alt="Quiz" className="w-full h-48 object-cover rounded-xl mb-6" />
+          <QuizImage key={currentQ.id} url={currentQ.imageUrl} photoId={currentQ.photoId} />
         )}
 
-        <div className="space-y-3 flex-grow">
-          {currentQ.options.map((opt, idx) => {
-             let btnClass = "w-full p-4 rounded-xl text-left border-2 transition-all font-medium ";
-             if (isAnswered) {
-               if (opt === currentQ.correctAnswer) btnClass += "bg-green-100 border-green-500 text-green-800";
-               else if (opt === selectedOption) btnClass += "bg-red-100 border-red-500 text-red-800";
-               else btnClass += "bg-gray-50 border-gray-100 text-gray-400";
-             } else {
-               btnClass += "bg-white border-gray-100 hover:border-emerald-300 hover:bg-emerald-50 text-gray-700";
-             }
-
-             return (
-               <button 
-                 key={idx}
-                 onClick={() => handleAnswer(opt)}
-                 disabled={isAnswered}
-                 className={btnClass}
-               >
-                 {opt}
-               </button>
-             );
-          })}
-        </div>
+        {currentQ.answerMode === 'TYPED' ? (
+          <form onSubmit={handleTypedSubmit} className="space-y-3 flex-grow">
+            <input
+              type="text"
+              autoFocus
+              autoComplete="off"
+              autoCapitalize="off"
+              spellCheck={false}
+              placeholder="Digite o nome..."
+              value={typedAnswer}
+              onChange={(e) => setTypedAnswer(e.target.value)}
+              disabled={isAnswered}
+              className="w-full p-4 rounded-xl border-2 border-gray-100 focus:border-emerald-400 focus:outline-none font-medium text-gray-800 disabled:bg-gray-50"
+            />
+            {!isAnswered && (
+              <button
+                type="submit"
+                disabled={!typedAnswer.trim()}
+                className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300"
+              >
+                Responder
+              </button>
+            )}
+            {typedResult && (
+              <div className={`p-4 rounded-xl border-2 ${
+                typedResult.credit === 1 ? 'bg-green-100 border-green-500 text-green-800'
+                : typedResult.credit > 0 ? 'bg-amber-100 border-amber-500 text-amber-800'
+                : 'bg-red-100 border-red-500 text-red-800'
+              }`}>
+                <p className="font-bold">
+                  {typedResult.verdict === 'EXACT' && 'Perfeito!'}
+                  {typedResult.verdict === 'CORRECT' && 'Correto! Atenção aos acentos e maiúsculas.'}
+                  {typedResult.verdict === 'CLOSE' && 'Quase! Meio ponto por pequenos erros de digitação.'}
+                  {typedResult.verdict === 'WRONG' && 'Não foi dessa vez.'}
+                </p>
+                {typedResult.verdict !== 'EXACT' && (
+                  <p className="text-sm mt-1">Grafia correta: <strong>{currentQ.correctAnswer}</strong></p>
+                )}
+              </div>
+            )}
+          </form>
+        ) : (
+          <div className="space-y-3 flex-grow">
+            {currentQ.options.map((opt, idx) => {
+               let btnClass = "w-full p-4 rounded-xl text-left border-2 transition-all font-medium ";
+               if (isAnswered) {
+                 if (opt === currentQ.correctAnswer) btnClass += "bg-green-100 border-green-500 text-green-800";
+                 else if (opt === selectedOption) btnClass += "bg-red-100 border-red-500 text-red-800";
+                 else btnClass += "bg-gray-50 border-gray-100 text-gray-400";
+               } else {
+                 btnClass += "bg-white border-gray-100 hover:border-emerald-300 hover:bg-emerald-50 text-gray-700";
+               }
+
+               return (
+                 <button 
+                   key={idx}
+                   onClick={() => handleAnswer(opt)}
+                   disabled={isAnswered}
+                   className={btnClass}
+                 >
+                   {opt}
+                 </button>
+               );
+            })}
+          </div>
+        )}
 
         {isAnswered && (
           <button 
             onClick={nextQuestion}
             className="mt-6 w-full py-4 bg-emerald-800 text-white rounded-xl font-bold hover:bg-emerald-900 animate-bounce-short"
           >
-            {currentQIndex < 2 ? 'Próxima Pergunta' : 'Ver Resultado'}
+            {currentQIndex < questions.length - 1 ? 'Próxima Pergunta' : 'Ver Resultado'}
           </button>
         )}
       </div>
@@ -874,18 +2947,49 @@ const QuizPage = () => {
 };
 
 const ProgressPage = () => {
+  const { plants } = usePlantDatabase();
+  const { profiles, activeProfile } = useProfiles();
   const [progress, setProgress] = useState<UserProgress | null>(null);
 
   useEffect(() => {
-    setProgress(getInitialProgress());
+    setProgress(getInitialProgress(activeProfile.id));
+  }, [activeProfile.id]);
+
+  const [leaderboard, setLeaderboard] = useState<WeeklyLeaderboard | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+
+  useEffect(() => {
+    if (!syncBackend) return;
+    let cancelled = false;
+    // Send our own pending scores first so the ranking includes them
+    flushSyncQueue(syncBackend)
+      .then(() => fetchLeaderboardWithCache(syncBackend, getTodayKey()))
+      .then(result => {
+        if (cancelled) return;
+        setLeaderboard(result.leaderboard);
+        setIsOffline(result.isOffline);
+      });
+    return () => { cancelled = true; };
   }, []);
 
+  // Without a sync backend the ranking compares the profiles on this device
+  const ranking = useMemo(() => leaderboard
+    ? leaderboard.entries.map(e => ({ id: e.userId, name: e.name, points: e.points, rank: e.rank }))
+    : profiles
+      .map(p => ({ id: p.id, name: p.name, points: getProgressPoints(getInitialProgress(p.id)) }))
+      .sort((a, b) => b.points - a.points)
+      .map((entry, idx) => ({ ...entry, rank: idx + 1 })), [leaderboard, profiles]);
+
   if (!progress) return <div>Carregando...</div>;
 
   const quizAccuracy = progress.quizTotalQuestions > 0 
     ? Math.round((progress.quizCorrectAnswers / progress.quizTotalQuestions) * 100) 
     : 0;
 
+  const missedPlants = getMostMissedPlants(progress.answers, plants);
+  const accuracyByType = getAccuracyByType(progress.answers);
+  const accuracyByCategory = getAccuracyByCategory(progress.answers, plants);
+
   return (
     <div className="space-y-6">
        <div className="flex items-center gap-2 mb-2">
@@ -906,8 +3010,13 @@ const ProgressPage = () => {
            <div className="bg-orange-100 p-3 rounded-full mb-3">
              <Trophy className="text-orange-600" size={24} />
            </div>
-           <span className="text-3xl font-bold text-gray-800">{progress.streakDays}</span>
+           <span className="text-3xl font-bold text-gray-800">{getCurrentStreak(progress, getTodayKey())}</span>
            <span className="text-xs text-gray-500 uppercase tracking-wide mt-1">Dias Seguidos</span>
+           {progress.streakFreezes > 0 && (
+             <span className="text-xs text-orange-600 mt-1" title="Cada proteção cobre um dia sem estudar sem perder a sequência">
+               {progress.streakFreezes} {progress.streakFreezes === 1 ? 'proteção' : 'proteções'} de sequência
+             </span>
+           )}
         </div>
       </div>
 
@@ -926,22 +3035,74 @@ const ProgressPage = () => {
         </p>
       </div>
 
-      {/* Mock Weekly Ranking */}
+      {/* Weakest Plants */}
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-red-100">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2 mb-4">
+          <AlertTriangle size={20} className="text-red-500"/> Plantas que Você Mais Erra
+        </h3>
+        {missedPlants.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum erro registrado ainda. Faça um quiz para descobrir seus pontos fracos.</p>
+        ) : (
+          <div className="space-y-2">
+            {missedPlants.map(({ plant, misses, total }) => (
+              <Link
+                key={plant.id}
+                to={`/plant/${plant.id}`}
+                className="flex items-center gap-3 p-2 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                <img src={plant.imageUrl} alt={plant.commonName} className="w-10 h-10 rounded-lg object-cover flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-gray-800 truncate">{plant.commonName}</p>
+                  <p className="text-xs text-emerald-600 italic truncate">{plant.scientificName}</p>
+                </div>
+                <span className="text-sm font-bold text-red-600 whitespace-nowrap">{misses} de {total}</span>
+                <ChevronRight size={16} className="text-gray-400" />
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {accuracyByType.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-blue-100 space-y-5">
+          <div>
+            <h3 className="font-bold text-gray-800 mb-3">Acertos por Tipo de Pergunta</h3>
+            <div className="space-y-3">
+              {accuracyByType.map(stat => (
+                <AccuracyBar key={stat.key} label={QUESTION_TYPE_LABELS[stat.key]} correct={stat.correct} total={stat.total} accuracy={stat.accuracy} />
+              ))}
+            </div>
+          </div>
+          <div>
+            <h3 className="font-bold text-gray-800 mb-3">Acertos por Categoria</h3>
+            <div className="space-y-3">
+              {accuracyByCategory.map(stat => (
+                <AccuracyBar key={stat.key} label={stat.key} correct={stat.correct} total={stat.total} accuracy={stat.accuracy} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Weekly Ranking */}
       <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-100">
-        <h3 className="font-bold text-gray-800 mb-4">Ranking Semanal (Oliveira Garden)</h3>
+        <h3 className={`font-bold text-gray-800 ${leaderboard ? 'mb-1' : 'mb-4'}`}>{leaderboard ? 'Ranking Semanal (Oliveira Garden)' : 'Ranking (perfis deste aparelho)'}</h3>
+        {leaderboard && (
+          <p className="text-xs text-gray-500 mb-4">
+            Semana de {formatDateKey(leaderboard.weekStart)}
+            {isOffline && ' · Sem conexão, mostrando o último ranking recebido'}
+            {getPendingUploads().length > 0 && ' · Pontos aguardando envio'}
+          </p>
+        )}
+        {ranking.length === 0 && <p className="text-sm text-gray-500">Ninguém pontuou nesta semana ainda.</p>}
         <div className="space-y-3">
-          {[
-            { name: "Você", points: progress.plantsStudiedCount * 10 + progress.quizCorrectAnswers * 5, rank: 2 },
-            { name: "Carlos M.", points: 450, rank: 1 },
-            { name: "Ana P.", points: 210, rank: 3 },
-            { name: "Roberto S.", points: 180, rank: 4 },
-          ].sort((a,b) => b.points - a.points).map((user, idx) => (
-            <div key={idx} className={`flex items-center justify-between p-3 rounded-lg ${user.name === 'Você' ? 'bg-emerald-50 border border-emerald-200' : 'bg-gray-50'}`}>
+          {ranking.map(user => (
+            <div key={user.id} className={`flex items-center justify-between p-3 rounded-lg ${user.id === activeProfile.id ? 'bg-emerald-50 border border-emerald-200' : 'bg-gray-50'}`}>
               <div className="flex items-center gap-3">
-                <span className={`w-6 h-6 flex items-center justify-center rounded-full text-xs font-bold ${idx < 3 ? 'bg-yellow-400 text-white' : 'bg-gray-300 text-gray-600'}`}>
-                  {idx + 1}
+                <span className={`w-6 h-6 flex items-center justify-center rounded-full text-xs font-bold ${user.rank <= 3 ? 'bg-yellow-400 text-white' : 'bg-gray-300 text-gray-600'}`}>
+                  {user.rank}
                 </span>
-                <span className="font-medium text-gray-800">{user.name}</span>
+                <span className="font-medium text-gray-800">{user.id === activeProfile.id ? 'Você' : user.name}</span>
               </div>
               <span className="font-bold text-gray-600">{user.points} pts</span>
             </div>
@@ -952,20 +3113,687 @@ const ProgressPage = () => {
   );
 };
 
+const EMPTY_DRAFT: PlantDraft = {
+  commonName: '',
+  scientificName: '',
+  light: LightRequirement.PARTIAL_SHADE,
+  category: '',
+  trivia: ''
+};
+
+const PlantEditorForm = ({ initial, categories, onSave, onCancel }: {
+  initial: PlantDraft;
+  categories: string[];
+  onSave: (draft: PlantDraft) => Promise<void>;
+  onCancel: () => void;
+}) => {
+  const [draft, setDraft] = useState<PlantDraft>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof PlantDraft>(field: K, value: PlantDraft[K]) =>
+    setDraft(prev => ({ ...prev, [field]: value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationErrors = validatePlantDraft(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+    setIsSaving(true);
+    await onSave(draft);
+    setIsSaving(false);
+  };
+
+  const inputClass = "w-full p-3 rounded-lg border border-gray-200 focus:ring-2 focus:ring-emerald-500 focus:outline-none";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="block text-sm font-medium text-gray-700">
+        Nome popular
+        <input className={inputClass} value={draft.commonName} onChange={(e) => update('commonName', e.target.value)} />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Nome científico
+        <input className={`${inputClass} italic`} value={draft.scientificName} onChange={(e) => update('scientificName', e.target.value)} />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Luminosidade
+        <select className={inputClass} value={draft.light} onChange={(e) => update('light', e.target.value as LightRequirement)}>
+          {Object.values(LightRequirement).map(light => <option key={light} value={light}>{light}</option>)}
+        </select>
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Categoria
+        <input className={inputClass} list="catalog-categories" value={draft.category} onChange={(e) => update('category', e.target.value)} />
+        <datalist id="catalog-categories">
+          {categories.map(category => <option key={category} value={category} />)}
+        </datalist>
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        Curiosidade
+        <textarea className={inputClass} rows={3} value={draft.trivia} onChange={(e) => update('trivia', e.target.value)} />
+      </label>
+      <label className="block text-sm font-medium text-gray-700">
+        URL da imagem (opcional)
+        <input className={inputClass} value={draft.imageUrl || ''} onChange={(e) => update('imageUrl', e.target.value)} placeholder="https://..." />
+      </label>
+
+      <fieldset className="space-y-4 border-t border-gray-100 pt-4">
+        <legend className="text-sm font-bold text-gray-800">Guia de cuidados (opcional)</legend>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.watering}
+          <select className={inputClass} value={draft.watering || ''} onChange={(e) => update('watering', e.target.value as WateringFrequency)}>
+            <option value="">—</option>
+            {Object.values(WateringFrequency).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.toxicity}
+          <select className={inputClass} value={draft.toxicity || ''} onChange={(e) => update('toxicity', e.target.value as Toxicity)}>
+            <option value="">—</option>
+            {Object.values(Toxicity).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.environment}
+          <select className={inputClass} value={draft.environment || ''} onChange={(e) => update('environment', e.target.value as PlantEnvironment)}>
+            <option value="">—</option>
+            {Object.values(PlantEnvironment).map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.matureSize}
+          <input className={inputClass} value={draft.matureSize || ''} onChange={(e) => update('matureSize', e.target.value)} placeholder="Ex.: 40 a 60 cm" />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.floweringSeason}
+          <input className={inputClass} value={draft.floweringSeason || ''} onChange={(e) => update('floweringSeason', e.target.value)} placeholder="Ex.: primavera e verão" />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.soil}
+          <input className={inputClass} value={draft.soil || ''} onChange={(e) => update('soil', e.target.value)} />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          {CARE_FIELD_LABELS.fertilizing}
+          <input className={inputClass} value={draft.fertilizing || ''} onChange={(e) => update('fertilizing', e.target.value)} />
+        </label>
+      </fieldset>
+
+      {errors.length > 0 && (
+        <ul className="bg-red-50 border border-red-100 text-red-700 text-sm rounded-lg p-3 list-disc list-inside">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <button type="button" onClick={onCancel} className="py-3 bg-gray-200 text-gray-800 rounded-xl font-bold hover:bg-gray-300">
+          Cancelar
+        </button>
+        <button type="submit" disabled={isSaving} className="py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300">
+          {isSaving ? 'Salvando...' : 'Salvar'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const CatalogTransferPanel = ({ catalog, loadPhotos, onImport }: {
+  catalog: CatalogItem[];
+  loadPhotos: () => Promise<Record<string, string>>;
+  onImport: (entries: CatalogFileEntry[]) => Promise<boolean>;
+}) => {
+  const [embedImages, setEmbedImages] = useState(false);
+  const [report, setReport] = useState<{ fileName: string; rows: ImportRowResult[] } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const validRows = report ? report.rows.filter(r => r.errors.length === 0 && r.entry) : [];
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    const entries = buildCatalogFileEntries(catalog, embedImages ? await loadPhotos() : {}, embedImages);
+    const stamp = getTodayKey();
+    if (format === 'csv') downloadFile(`catalogo-plantas-${stamp}.csv`, exportCatalogCsv(entries), 'text/csv;charset=utf-8');
+    else downloadFile(`catalogo-plantas-${stamp}.json`, exportCatalogJson(entries), 'application/json');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    const existingIds = new Set(catalog.map(item => item.plant.id));
+    const rows = file.name.toLowerCase().endsWith('.json')
+      ? validateJsonImport(text, existingIds)
+      : validateCsvImport(text, existingIds);
+    setReport({ fileName: file.name, rows });
+  };
+
+  const confirmImport = async () => {
+    setIsImporting(true);
+    const success = await onImport(validRows.map(r => r.entry as CatalogFileEntry));
+    setIsImporting(false);
+    if (success) setReport(null);
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+      <h3 className="font-bold text-gray-800">Importar / Exportar</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => handleExport('csv')} className="flex items-center justify-center gap-2 py-2 rounded-lg border border-gray-200 text-sm font-semibold text-gray-700 hover:bg-gray-50">
+          <FileDown size={16} /> Exportar CSV
+        </button>
+        <button onClick={() => handleExport('json')} className="flex items-center justify-center gap-2 py-2 rounded-lg border border-gray-200 text-sm font-semibold text-gray-700 hover:bg-gray-50">
+          <FileDown size={16} /> Exportar JSON
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input type="checkbox" checked={embedImages} onChange={(e) => setEmbedImages(e.target.checked)} className="w-4 h-4 accent-emerald-600" />
+        Incluir a foto principal tirada no app (arquivo maior)
+      </label>
+      {/* The file has one image column per plant; every labeled photo travels in the backup instead */}
+      {embedImages && (
+        <p className="text-xs text-gray-500">
+          Só a primeira foto de cada planta vai no arquivo. As outras (flor, folha, muda...) ficam de fora; use o backup para levar todas.
+        </p>
+      )}
+      <label className="flex items-center justify-center gap-2 py-2 rounded-lg bg-emerald-600 text-white text-sm font-semibold cursor-pointer hover:bg-emerald-700">
+        <FileUp size={16} /> Importar CSV ou JSON
+        <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+      </label>
+
+      {report && (
+        <div className="space-y-3 border-t border-gray-100 pt-3">
+          <p className="text-sm text-gray-700">
+            <strong>{report.fileName}</strong>: {validRows.length} de {report.rows.length} linhas válidas
+            {' '}({validRows.filter(r => r.action === 'CREATE').length} novas, {validRows.filter(r => r.action === 'UPDATE').length} atualizações).
+          </p>
+          <div className="max-h-64 overflow-y-auto space-y-1 text-sm">
+            {report.rows.map(row => (
+              <div key={row.rowNumber} className={`p-2 rounded-lg ${row.errors.length ? 'bg-red-50 text-red-800' : 'bg-emerald-50 text-emerald-800'}`}>
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold truncate">
+                    {row.rowNumber > 0 ? `Linha ${row.rowNumber}` : 'Arquivo'}{row.entry?.commonName ? ` · ${row.entry.commonName}` : ''}
+                  </span>
+                  <span className="text-xs uppercase font-bold whitespace-nowrap">
+                    {row.errors.length ? 'Erro' : row.action === 'UPDATE' ? 'Atualizar' : 'Nova'}
+                  </span>
+                </div>
+                {row.errors.length > 0 && (
+                  <ul className="list-disc list-inside text-xs mt-1">
+                    {row.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => setReport(null)} className="py-2 bg-gray-200 text-gray-800 rounded-lg font-semibold hover:bg-gray-300">
+              Cancelar
+            </button>
+            <button
+              onClick={confirmImport}
+              disabled={validRows.length === 0 || isImporting}
+              className="py-2 bg-emerald-600 text-white rounded-lg font-semibold hover:bg-emerald-700 disabled:bg-gray-300"
+            >
+              {isImporting ? 'Importando...' : `Importar ${validRows.length}`}
+            </button>
+          </div>
+          {validRows.length < report.rows.length && (
+            <p className="text-xs text-gray-500">Linhas com erro serão ignoradas. Corrija a planilha e importe novamente se precisar.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CatalogPage = () => {
+  const { catalog, exportMainPhotos, savePlant, setPlantRetired, removeCatalogRecord, importCatalogEntries, isLoadingImages } = usePlantDatabase();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // ?edit=<id> opens the editor for a plant, ?edit=new for a new one
+  const editingId = searchParams.get('edit');
+  const editingItem = editingId && editingId !== 'new' ? catalog.find(item => item.plant.id === editingId) : undefined;
+
+  const categories = useMemo(
+    () => Array.from(new Set(catalog.map(item => item.plant.category))).sort((a, b) => a.localeCompare(b, 'pt-BR')),
+    [catalog]
+  );
+
+  const filteredCatalog = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return catalog.filter(item =>
+      item.plant.commonName.toLowerCase().includes(term) || item.plant.scientificName.toLowerCase().includes(term)
+    );
+  }, [catalog, searchTerm]);
+
+  const closeEditor = () => setSearchParams({}, { replace: true });
+
+  const handleSave = async (draft: PlantDraft) => {
+    const savedId = await savePlant(editingItem ? editingItem.plant.id : null, draft);
+    if (savedId) closeEditor();
+  };
+
+  if (isLoadingImages) return <div>Carregando catálogo...</div>;
+
+  if (editingId === 'new' || editingItem) {
+    const { id: _id, ...fields } = editingItem ? editingItem.plant : { ...EMPTY_DRAFT, id: '' };
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 mb-2">
+          <button onClick={closeEditor} className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></button>
+          <h1 className="text-2xl font-bold text-gray-800">{editingItem ? 'Editar Planta' : 'Nova Planta'}</h1>
+        </div>
+        <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100">
+          <PlantEditorForm key={editingId} initial={fields} categories={categories} onSave={handleSave} onCancel={closeEditor} />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800 flex-1">Gerenciar Catálogo</h1>
+        <button
+          onClick={() => setSearchParams({ edit: 'new' })}
+          className="flex items-center gap-1 bg-emerald-600 text-white px-3 py-2 rounded-lg text-sm font-bold hover:bg-emerald-700"
+        >
+          <Plus size={16} /> Nova
+        </button>
+      </div>
+
+      <CatalogTransferPanel catalog={catalog} loadPhotos={exportMainPhotos} onImport={importCatalogEntries} />
+
+      <input 
+        type="text" 
+        placeholder="Buscar por nome..." 
+        className="w-full p-3 rounded-lg border border-gray-200 focus:ring-2 focus:ring-emerald-500 focus:outline-none shadow-sm"
+        value={searchTerm}
+        onChange={(e) => setSearchTerm(e.target.value)}
+      />
+
+      <p className="text-sm text-gray-500">
+        {catalog.filter(item => !item.retired).length} plantas ativas · {catalog.filter(item => item.retired).length} aposentadas
+      </p>
+
+      <div className="grid gap-2 pb-20">
+        {filteredCatalog.map(item => (
+          <div key={item.plant.id} className={`flex items-center gap-3 p-3 bg-white rounded-xl shadow-sm border border-emerald-50 ${item.retired ? 'opacity-60' : ''}`}>
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold text-gray-800 truncate">{item.plant.commonName}</h3>
+              <p className="text-xs text-emerald-600 italic truncate">{item.plant.scientificName}</p>
+              <div className="flex gap-1 mt-1 text-[10px] font-bold uppercase">
+                {item.isCustom && <span className="px-1.5 py-0.5 rounded bg-blue-100 text-blue-700">Nova</span>}
+                {item.isEdited && <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">Editada</span>}
+                {item.retired && <span className="px-1.5 py-0.5 rounded bg-gray-200 text-gray-600">Aposentada</span>}
+              </div>
+            </div>
+            <button onClick={() => setSearchParams({ edit: item.plant.id })} className="p-2 rounded-full hover:bg-gray-100 text-gray-600" title="Editar">
+              <Pencil size={18} />
+            </button>
+            <button
+              onClick={() => setPlantRetired(item.plant.id, !item.retired)}
+              className="p-2 rounded-full hover:bg-gray-100 text-gray-600"
+              title={item.retired ? 'Reativar' : 'Aposentar'}
+            >
+              {item.retired ? <ArchiveRestore size={18} /> : <Archive size={18} />}
+            </button>
+            {item.isCustom && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`Excluir "${item.plant.commonName}" definitivamente?`)) removeCatalogRecord(item.plant.id);
+                }}
+                className="p-2 rounded-full hover:bg-red-50 text-red-500"
+                title="Excluir"
+              >
+                <Trash2 size={18} />
+              </button>
+            )}
+            {item.isEdited && (
+              <button
+                onClick={() => {
+                  if (window.confirm(`Desfazer as alterações em "${item.plant.commonName}"?`)) removeCatalogRecord(item.plant.id);
+                }}
+                className="p-2 rounded-full hover:bg-gray-100 text-gray-600"
+                title="Restaurar dados originais"
+              >
+                <Undo2 size={18} />
+              </button>
+            )}
+          </div>
+        ))}
+        {filteredCatalog.length === 0 && (
+          <div className="text-center py-10 text-gray-500">
+            Nenhuma planta encontrada.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const BackupPage = () => {
+  const { reloadProfiles } = useProfiles();
+  const { reloadDatabase } = usePlantDatabase();
+  const [isWorking, setIsWorking] = useState(false);
+  const [pending, setPending] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('MERGE');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const backup = await createBackup(await collectBackupPayload());
+      const stamp = getTodayKey();
+      downloadFile(`backup-treinamento-garden-${stamp}.json`, JSON.stringify(backup), 'application/json');
+      setMessage({ type: 'success', text: 'Backup gerado. Guarde o arquivo em local seguro (Drive, e-mail, pendrive).' });
+    } catch (e) {
+      console.error("Error creating backup", e);
+      setMessage({ type: 'error', text: 'Não foi possível gerar o backup.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMessage(null);
+    const result = await parseBackup(await file.text());
+    if (result.ok) setPending(result.backup);
+    else setMessage({ type: 'error', text: result.error });
+  };
+
+  const confirmRestore = async () => {
+    if (!pending) return;
+    if (mode === 'REPLACE' && !window.confirm("Substituir apaga o progresso e as fotos atuais deste aparelho. Continuar?")) return;
+    setIsWorking(true);
+    try {
+      await restoreBackup(pending, mode);
+      setPending(null);
+      reloadProfiles();
+      reloadDatabase();
+      setMessage({ type: 'success', text: 'Backup restaurado com sucesso!' });
+    } catch (e) {
+      console.error("Error restoring backup", e);
+      setMessage({ type: 'error', text: 'Erro ao restaurar o backup. Nenhum arquivo foi apagado do seu aparelho de origem.' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800">Backup e Restauração</h1>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2"><HardDrive size={18} className="text-emerald-600" /> Fazer backup</h3>
+        <p className="text-sm text-gray-600">Um único arquivo com o progresso de todos os perfis, histórico de respostas, fotos e alterações no catálogo.</p>
+        <button
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="w-full flex items-center justify-center gap-2 py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300"
+        >
+          <FileDown size={18} /> Baixar backup
+        </button>
+      </div>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3">
+        <h3 className="font-bold text-gray-800">Restaurar</h3>
+        {!pending ? (
+          <label className="w-full flex items-center justify-center gap-2 py-3 border-2 border-emerald-600 text-emerald-700 rounded-xl font-bold cursor-pointer hover:bg-emerald-50">
+            <FileUp size={18} /> Escolher arquivo de backup
+            <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+          </label>
+        ) : (
+          <div className="space-y-3">
+            <div className="bg-gray-50 p-3 rounded-lg text-sm text-gray-700 space-y-1">
+              <p>Criado em: <strong>{pending.createdAt ? new Date(pending.createdAt).toLocaleString('pt-BR') : '—'}</strong></p>
+              <p>
+                {pending.payload.profiles.length} {pending.payload.profiles.length === 1 ? 'perfil' : 'perfis'}: {pending.payload.profiles.map(p => p.name).join(', ')}
+              </p>
+              <p>
+                {Object.values(pending.payload.progressByProfile).reduce((sum, p) => sum + p.plantsStudiedCount, 0)} plantas estudadas · {Object.values(pending.payload.progressByProfile).reduce((sum, p) => sum + p.history.length, 0)} sessões
+              </p>
+              <p>{pending.payload.plantPhotos.length} fotos · {Object.keys(pending.payload.catalogRecords).length} alterações no catálogo</p>
+              <p className="text-emerald-700 flex items-center gap-1"><CheckCircle size={14} /> Integridade verificada</p>
+            </div>
+            <div className="space-y-2">
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input type="radio" name="restore-mode" checked={mode === 'MERGE'} onChange={() => setMode('MERGE')} className="mt-1 accent-emerald-600" />
+                <span><strong>Mesclar</strong>: junta o backup com o que já existe neste aparelho.</span>
+              </label>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input type="radio" name="restore-mode" checked={mode === 'REPLACE'} onChange={() => setMode('REPLACE')} className="mt-1 accent-emerald-600" />
+                <span><strong>Substituir</strong>: apaga os dados deste aparelho e usa só o backup.</span>
+              </label>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <button onClick={() => setPending(null)} className="py-3 bg-gray-200 text-gray-800 rounded-xl font-bold hover:bg-gray-300">
+                Cancelar
+              </button>
+              <button
+                onClick={confirmRestore}
+                disabled={isWorking}
+                className="py-3 bg-emerald-600 text-white rounded-xl font-bold hover:bg-emerald-700 disabled:bg-gray-300"
+              >
+                {isWorking ? 'Restaurando...' : 'Restaurar'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg text-sm ${message.type === 'success' ? 'bg-emerald-50 text-emerald-800 border border-emerald-100' : 'bg-red-50 text-red-800 border border-red-100'}`}>
+          {message.text}
+        </div>
+      )}
+
+      <StorageCard />
+    </div>
+  );
+};
+
+const ManagerPage = () => {
+  const { plants, isLoadingImages } = usePlantDatabase();
+  const { profiles } = useProfiles();
+  const [imported, setImported] = useState<TeamMember[]>([]);
+  const [inactiveDays, setInactiveDays] = useState(7);
+  const [onlyInactive, setOnlyInactive] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Imported backups only live on this screen; a profile present in several files is merged
+  const members = useMemo(() => {
+    const byId = new Map<string, TeamMember>();
+    profiles.forEach(p => byId.set(p.id, { id: p.id, name: p.name, source: 'LOCAL', progress: getInitialProgress(p.id) }));
+    imported.forEach(member => {
+      const existing = byId.get(member.id);
+      byId.set(member.id, existing ? { ...existing, progress: mergeProgress(existing.progress, member.progress) } : member);
+    });
+    return Array.from(byId.values());
+  }, [profiles, imported]);
+
+  const reports = useMemo(() => buildTeamReport(members, plants, getTodayKey()), [members, plants]);
+  const visibleReports = onlyInactive ? reports.filter(r => isInactiveFor(r, inactiveDays)) : reports;
+  const inactiveCount = reports.filter(r => isInactiveFor(r, inactiveDays)).length;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setError('');
+    const added: TeamMember[] = [];
+    for (const file of files) {
+      const result = await parseBackup(await file.text());
+      if (!result.ok) {
+        setError(`${file.name}: ${result.error}`);
+        continue;
+      }
+      const { profiles: backupProfiles, progressByProfile } = result.backup.payload;
+      backupProfiles.forEach(p => added.push({
+        id: p.id,
+        name: p.name,
+        source: 'IMPORTED',
+        progress: readProgress(progressByProfile[p.id]).progress
+      }));
+    }
+    setImported(prev => [...prev, ...added]);
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(`relatorio-equipe-${getTodayKey()}.csv`, exportTeamReportCsv(visibleReports), 'text/csv;charset=utf-8');
+  };
+
+  if (isLoadingImages) return <div>Carregando...</div>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Link to="/" className="p-2 hover:bg-gray-200 rounded-full print:hidden"><ArrowLeft size={20} /></Link>
+        <h1 className="text-2xl font-bold text-gray-800">Relatório da Equipe</h1>
+      </div>
+      <p className="hidden print:block text-sm text-gray-600">Gerado em {new Date().toLocaleDateString('pt-BR')}</p>
+
+      <div className="bg-white p-5 rounded-xl shadow-sm border border-emerald-100 space-y-3 print:hidden">
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={onlyInactive} onChange={e => setOnlyInactive(e.target.checked)} className="accent-emerald-600" />
+            Só quem não treina há
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={inactiveDays}
+            onChange={e => setInactiveDays(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 p-1 border border-gray-300 rounded-lg text-center"
+          />
+          dias
+        </div>
+        <p className="text-xs text-gray-500">{inactiveCount} de {reports.length} consultores sem treinar há {inactiveDays} dias ou mais.</p>
+        <div className="grid grid-cols-3 gap-2">
+          <label className="flex items-center justify-center gap-1 py-2 border border-emerald-600 text-emerald-700 rounded-lg text-sm font-semibold cursor-pointer hover:bg-emerald-50">
+            <FileUp size={16} /> Backups
+            <input type="file" accept=".json,application/json" multiple className="hidden" onChange={handleImport} />
+          </label>
+          <button onClick={handleExportCsv} className="flex items-center justify-center gap-1 py-2 bg-emerald-600 text-white rounded-lg text-sm font-semibold hover:bg-emerald-700">
+            <FileDown size={16} /> CSV
+          </button>
+          <button onClick={() => window.print()} className="flex items-center justify-center gap-1 py-2 bg-gray-200 text-gray-800 rounded-lg text-sm font-semibold hover:bg-gray-300">
+            <Printer size={16} /> Imprimir
+          </button>
+        </div>
+        {imported.length > 0 && (
+          <p className="text-xs text-gray-500">
+            {imported.length} {imported.length === 1 ? 'perfil importado' : 'perfis importados'} de backups (não são salvos neste aparelho).{' '}
+            <button onClick={() => setImported([])} className="underline">Remover</button>
+          </p>
+        )}
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto print:shadow-none print:border-0">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+            <tr>
+              <th className="text-left p-3">Consultor</th>
+              <th className="p-3">Dias seguidos</th>
+              <th className="p-3">Última atividade</th>
+              <th className="p-3">Acerto quiz</th>
+              <th className="p-3">Nunca estudadas</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleReports.length === 0 && (
+              <tr><td colSpan={5} className="p-4 text-center text-gray-500">Ninguém nesta lista.</td></tr>
+            )}
+            {visibleReports.map(report => (
+              <React.Fragment key={report.id}>
+                <tr
+                  onClick={() => setExpandedId(expandedId === report.id ? null : report.id)}
+                  className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${isInactiveFor(report, inactiveDays) ? 'bg-red-50' : ''}`}
+                >
+                  <td className="p-3">
+                    <div className="flex items-center gap-1 font-medium text-gray-800">
+                      <ChevronDown size={14} className={`text-gray-400 transition-transform print:hidden ${expandedId === report.id ? 'rotate-180' : ''}`} />
+                      {report.name}
+                    </div>
+                    {report.source === 'IMPORTED' && <span className="text-xs text-gray-400">backup</span>}
+                  </td>
+                  <td className="p-3 text-center">{report.streakDays}</td>
+                  <td className="p-3 text-center whitespace-nowrap">
+                    {report.lastActivityDate ? formatDateKey(report.lastActivityDate) : '—'}
+                    <div className="text-xs text-gray-400">
+                      {report.daysInactive === null ? 'nunca treinou' : report.daysInactive === 0 ? 'hoje' : `há ${report.daysInactive} d`}
+                    </div>
+                  </td>
+                  <td className="p-3 text-center">{report.quizAccuracy === null ? '—' : `${report.quizAccuracy}%`}</td>
+                  <td className="p-3 text-center">{report.neverStudied.length}</td>
+                </tr>
+                {expandedId === report.id && (
+                  <tr className="border-t border-gray-100 bg-gray-50">
+                    <td colSpan={5} className="p-4 space-y-4">
+                      <div>
+                        <h4 className="font-semibold text-gray-700 mb-2">Acertos por tipo de pergunta</h4>
+                        {Object.keys(report.accuracyByType).length === 0 ? (
+                          <p className="text-gray-500">Ainda não respondeu quizzes.</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {ALL_QUESTION_TYPES.filter(type => report.accuracyByType[type] !== undefined).map(type => (
+                              <li key={type} className="flex justify-between gap-2">
+                                <span className="text-gray-600">{QUESTION_TYPE_LABELS[type]}</span>
+                                <span className="font-semibold">{report.accuracyByType[type]}%</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      <div>
+                        <h4 className="font-semibold text-gray-700 mb-2">Plantas nunca estudadas ({report.neverStudied.length})</h4>
+                        <p className="text-gray-600">{report.neverStudied.map(p => p.commonName).join(', ') || 'Nenhuma, estudou todo o catálogo!'}</p>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
 // --- Main App ---
 
 export default function App() {
   return (
     <HashRouter>
-      <Layout>
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route path="/cycle" element={<CyclePage />} />
-          <Route path="/study" element={<StudyPage />} />
-          <Route path="/quiz" element={<QuizPage />} />
-          <Route path="/progress" element={<ProgressPage />} />
-        </Routes>
-      </Layout>
+      <ProfileProvider>
+        <PlantDatabaseProvider>
+          <Layout>
+            <Routes>
+              <Route path="/" element={<HomePage />} />
+              <Route path="/cycle" element={<CyclePage />} />
+              <Route path="/study" element={<StudyPage />} />
+              <Route path="/plant/:id" element={<PlantDetailPage />} />
+              <Route path="/photos" element={<PhotoSessionPage />} />
+              <Route path="/quiz" element={<QuizPage />} />
+              <Route path="/progress" element={<ProgressPage />} />
+              <Route path="/catalog" element={<CatalogPage />} />
+              <Route path="/backup" element={<BackupPage />} />
+              <Route path="/manager" element={<ManagerPage />} />
+            </Routes>
+          </Layout>
+        </PlantDatabaseProvider>
+      </ProfileProvider>
     </HashRouter>
   );
 }
\ No newline at end of file
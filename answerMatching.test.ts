@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { gradeTypedAnswer } from './answerMatching';
+
+const verdict = (input: string, expected: string) => gradeTypedAnswer(input, expected).verdict;
+
+describe('gradeTypedAnswer', () => {
+  it('is exact for the full name or an accepted alias typed as written', () => {
+    expect(verdict('Copo de Leite (Calla Lily)', 'Copo de Leite (Calla Lily)')).toBe('EXACT');
+    expect(verdict('Calla Lily', 'Copo de Leite (Calla Lily)')).toBe('EXACT');
+    expect(verdict('  Copo de Leite ', 'Copo de Leite (Calla Lily)')).toBe('EXACT');
+  });
+
+  it('ignores spacing and punctuation without a hint', () => {
+    expect(verdict('Copo-de-Leite', 'Copo de Leite (Calla Lily)')).toBe('EXACT');
+    expect(verdict('Antúrio', 'Antúrio')).toBe('EXACT');
+  });
+
+  it('is correct with the hint when only accents or capitals differ', () => {
+    expect(verdict('anturio', 'Antúrio')).toBe('CORRECT');
+    expect(verdict('calla lily', 'Copo de Leite (Calla Lily)')).toBe('CORRECT');
+  });
+
+  it('gives half credit for small typos and none otherwise', () => {
+    expect(gradeTypedAnswer('Jiboa', 'Jiboia')).toMatchObject({ verdict: 'CLOSE', credit: 0.5 });
+    expect(gradeTypedAnswer('Samambaia', 'Jiboia')).toMatchObject({ verdict: 'WRONG', credit: 0 });
+  });
+});
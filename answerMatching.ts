@@ -0,0 +1,79 @@
+// --- Typed Answer Grading (free recall) ---
+
+export type TypedAnswerVerdict = 'EXACT' | 'CORRECT' | 'CLOSE' | 'WRONG';
+
+export interface TypedAnswerResult {
+  verdict: TypedAnswerVerdict;
+  credit: number; // 1, 0.5 or 0
+  distance: number;
+}
+
+// "Copo-de-Leite " and "Copo de Leite" are the same spelling; accents and case are kept
+const normalizeSpacing = (text: string) =>
+  text
+    .normalize('NFC')
+    .replace(/['"´`().,;:!?-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// "Antúrio", "  anturio " and "ANTURIO" all become "anturio"
+export const normalizeAnswer = (text: string) =>
+  normalizeSpacing(text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase());
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Typos allowed for partial credit; short names must be spelled right
+const getTolerance = (length: number) => (length <= 4 ? 0 : length <= 8 ? 1 : 2);
+
+/**
+ * Names accepted for an answer: the full text plus the parts around parentheses,
+ * so "Copo de Leite (Calla Lily)" also accepts "Copo de Leite" and "Calla Lily".
+ */
+export const getAcceptedAnswers = (expected: string): string[] => {
+  const accepted = new Set([expected]);
+  const withoutExtras = expected.replace(/\(.*?\)/g, '').trim();
+  if (withoutExtras) accepted.add(withoutExtras);
+  const parenthetical = expected.match(/\((.*?)\)/);
+  if (parenthetical && parenthetical[1].trim()) accepted.add(parenthetical[1].trim());
+  return Array.from(accepted);
+};
+
+export const gradeTypedAnswer = (input: string, expected: string): TypedAnswerResult => {
+  const typed = normalizeAnswer(input);
+  if (!typed) return { verdict: 'WRONG', credit: 0, distance: normalizeAnswer(expected).length };
+
+  // Any accepted name spelled with its accents and capitals is exact; only those details earn the hint
+  const accepted = getAcceptedAnswers(expected);
+  const spelled = normalizeSpacing(input);
+  if (accepted.some(answer => normalizeSpacing(answer) === spelled)) return { verdict: 'EXACT', credit: 1, distance: 0 };
+
+  let best = Infinity;
+  let bestLength = 0;
+  for (const answer of accepted) {
+    const normalized = normalizeAnswer(answer);
+    const distance = levenshtein(typed, normalized);
+    if (distance < best) {
+      best = distance;
+      bestLength = normalized.length;
+    }
+  }
+
+  if (best === 0) return { verdict: 'CORRECT', credit: 1, distance: 0 };
+  if (best <= getTolerance(bestLength)) return { verdict: 'CLOSE', credit: 0.5, distance: best };
+  return { verdict: 'WRONG', credit: 0, distance: best };
+};
@@ -0,0 +1,210 @@
+import { CatalogRecord, PlantPhoto, PlantReview, QuizAnswerRecord, StudySession, UserProfile, UserProgress } from './types';
+import { HashAlgorithm, canUseSha256, hashText } from './utils';
+import { DEFAULT_PROFILE_NAME } from './constants';
+import { normalizeAnswer } from './answerMatching';
+
+// --- Backup File (versioned, with integrity check) ---
+
+export const BACKUP_FORMAT = 'treinamento-garden-backup';
+export const BACKUP_VERSION = 3;
+
+export type ChecksumAlgorithm = HashAlgorithm;
+
+export interface BackupPayload {
+  profiles: UserProfile[];
+  progressByProfile: Record<string, UserProgress>;
+  plantPhotos: PlantPhoto[];
+  catalogRecords: Record<string, CatalogRecord>;
+  settings: Record<string, string>;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  checksumAlgorithm: ChecksumAlgorithm;
+  checksum: string;
+  payload: BackupPayload;
+}
+
+export type RestoreMode = 'MERGE' | 'REPLACE';
+
+export type ParsedBackup = { ok: true; backup: BackupFile } | { ok: false; error: string };
+
+export const createBackup = async (payload: BackupPayload): Promise<BackupFile> => {
+  const checksumAlgorithm: ChecksumAlgorithm = canUseSha256() ? 'SHA-256' : 'FNV-1a';
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    checksumAlgorithm,
+    checksum: await hashText(JSON.stringify(payload), checksumAlgorithm),
+    payload
+  };
+};
+
+export const LEGACY_PROFILE_ID = 'legacy';
+
+// Ordered upgrades from older backup versions; index N upgrades a version N+1 payload
+const BACKUP_MIGRATIONS: ((payload: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // v1 -> v2: a single progress becomes one profile, matched by name on restore
+  ({ progress, ...rest }) => ({
+    ...rest,
+    profiles: [{ id: LEGACY_PROFILE_ID, name: DEFAULT_PROFILE_NAME, pinHash: null, createdAt: new Date().toISOString() }],
+    progressByProfile: { [LEGACY_PROFILE_ID]: progress }
+  }),
+  // v2 -> v3: the single photo per plant becomes the first of its photos
+  ({ customImages, ...rest }) => ({
+    ...rest,
+    plantPhotos: Object.entries((customImages || {}) as Record<string, string>).map(([plantId, dataUrl]) => ({
+      id: `${plantId}:legacy`,
+      plantId,
+      label: 'GERAL',
+      dataUrl,
+      createdAt: ''
+    }))
+  })
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isProgressLike = (value: unknown): value is UserProgress =>
+  isObject(value) &&
+  typeof value.plantsStudiedCount === 'number' &&
+  typeof value.streakDays === 'number' &&
+  typeof value.quizTotalQuestions === 'number' &&
+  typeof value.quizCorrectAnswers === 'number' &&
+  Array.isArray(value.history);
+
+export const isProfileLike = (value: unknown): value is UserProfile =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+const isPhotoLike = (value: unknown): value is PlantPhoto =>
+  isObject(value) && typeof value.id === 'string' && typeof value.plantId === 'string' && typeof value.dataUrl === 'string';
+
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'O arquivo não é um backup válido (JSON ilegível).' };
+  }
+
+  if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+    return { ok: false, error: 'Este arquivo não é um backup do Treinamento Garden.' };
+  }
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) return { ok: false, error: 'Versão do backup desconhecida.' };
+  if (version > BACKUP_VERSION) {
+    return { ok: false, error: 'Backup criado por uma versão mais nova do app. Atualize o app antes de restaurar.' };
+  }
+  if (!isObject(raw.payload)) return { ok: false, error: 'Backup sem dados.' };
+
+  // The checksum always refers to the payload as written by the version that created the file
+  const algorithm: ChecksumAlgorithm = raw.checksumAlgorithm === 'FNV-1a' ? 'FNV-1a' : 'SHA-256';
+  if (algorithm === 'SHA-256' && !canUseSha256()) {
+    return { ok: false, error: 'Este navegador não consegue verificar o backup. Abra o app por https.' };
+  }
+  const checksum = await hashText(JSON.stringify(raw.payload), algorithm);
+  if (checksum !== raw.checksum) {
+    return { ok: false, error: 'O backup está corrompido ou foi alterado (verificação de integridade falhou).' };
+  }
+
+  let payload = raw.payload;
+  for (let v = version; v < BACKUP_VERSION; v++) payload = BACKUP_MIGRATIONS[v - 1](payload);
+
+  const { profiles, progressByProfile } = payload;
+  if (
+    !Array.isArray(profiles) || !profiles.every(isProfileLike) ||
+    !isObject(progressByProfile) || !profiles.every(p => isProgressLike(progressByProfile[p.id])) ||
+    !Array.isArray(payload.plantPhotos) || !payload.plantPhotos.every(isPhotoLike) || !isObject(payload.catalogRecords)
+  ) {
+    return { ok: false, error: 'O backup está incompleto.' };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: String(raw.createdAt || ''),
+      checksumAlgorithm: algorithm,
+      checksum,
+      payload: {
+        profiles: profiles.map(p => ({ ...p, pinHash: typeof p.pinHash === 'string' ? p.pinHash : null })),
+        progressByProfile: progressByProfile as Record<string, UserProgress>,
+        plantPhotos: (payload.plantPhotos as PlantPhoto[]).map(photo => ({
+          ...photo,
+          label: photo.label || 'GERAL',
+          createdAt: typeof photo.createdAt === 'string' ? photo.createdAt : ''
+        })),
+        catalogRecords: payload.catalogRecords as Record<string, CatalogRecord>,
+        settings: isObject(payload.settings) ? (payload.settings as Record<string, string>) : {}
+      }
+    }
+  };
+};
+
+// --- Merging ---
+
+const uniqueBy = <T>(items: T[], getKey: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = getKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const sessionKey = (s: StudySession) => `${s.date}|${s.type}|${s.score ?? ''}|${(s.plantIds || []).join(',')}`;
+const answerKey = (a: QuizAnswerRecord) => `${a.timestamp}|${a.plantId}|${a.questionType}`;
+
+const newerReview = (a: PlantReview | undefined, b: PlantReview): PlantReview =>
+  !a || (b.lastReviewedDate || '') > (a.lastReviewedDate || '') ? b : a;
+
+/**
+ * Combines two progress records without counting anything twice, so merging the
+ * same backup again changes nothing. Totals keep the larger side; lists are united.
+ */
+export const mergeProgress = (current: UserProgress, incoming: UserProgress): UserProgress => {
+  const reviews = { ...current.reviews };
+  Object.values(incoming.reviews || {}).forEach(review => {
+    reviews[review.plantId] = newerReview(reviews[review.plantId], review);
+  });
+
+  const incomingIsLatest = (incoming.lastStudyDate || '') > (current.lastStudyDate || '');
+
+  return {
+    ...current,
+    plantsStudiedCount: Math.max(current.plantsStudiedCount, incoming.plantsStudiedCount),
+    lastStudyDate: incomingIsLatest ? incoming.lastStudyDate : current.lastStudyDate,
+    streakDays: incomingIsLatest ? incoming.streakDays : current.streakDays,
+    streakFreezes: incomingIsLatest ? incoming.streakFreezes ?? 0 : current.streakFreezes,
+    quizTotalQuestions: Math.max(current.quizTotalQuestions, incoming.quizTotalQuestions),
+    quizCorrectAnswers: Math.max(current.quizCorrectAnswers, incoming.quizCorrectAnswers),
+    history: uniqueBy([...current.history, ...(incoming.history || [])], sessionKey)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    reviews,
+    answers: uniqueBy([...current.answers, ...(incoming.answers || [])], answerKey)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  };
+};
+
+// A backed-up profile is restored into the local one with the same id, or else the same name
+export const findMatchingProfile = (existing: UserProfile[], incoming: UserProfile): UserProfile | undefined =>
+  existing.find(p => p.id === incoming.id) ||
+  existing.find(p => normalizeAnswer(p.name) === normalizeAnswer(incoming.name));
+
+// Catalog edits: the most recently updated version of each plant wins
+export const mergeCatalogRecords = (
+  current: Record<string, CatalogRecord>,
+  incoming: Record<string, CatalogRecord>
+): Record<string, CatalogRecord> => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([id, record]) => {
+    if (!merged[id] || record.updatedAt > merged[id].updatedAt) merged[id] = record;
+  });
+  return merged;
+};
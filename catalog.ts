@@ -0,0 +1,92 @@
+import { Plant, PlantCare, CatalogItem, CatalogRecord, LightRequirement, PlantEnvironment, Toxicity, WateringFrequency } from './types';
+import { PLACEHOLDER_IMAGE_PREFIX } from './constants';
+
+// --- Plant Catalog (built-in list merged with editor changes) ---
+
+const CUSTOM_ID_PREFIX = 'custom-';
+
+export const isCustomPlantId = (id: string) => id.startsWith(CUSTOM_ID_PREFIX);
+
+// Custom ids never look like the numeric built-in ids and are checked against every known id
+export const createPlantId = (existingIds: Set<string>, random: () => number = Math.random): string => {
+  let id: string;
+  do {
+    id = `${CUSTOM_ID_PREFIX}${Date.now().toString(36)}-${Math.floor(random() * 36 ** 6).toString(36)}`;
+  } while (existingIds.has(id));
+  return id;
+};
+
+/**
+ * Built-in plants keep their order, with edits applied over them; custom plants
+ * follow sorted by name. Retired plants are kept so the editor can restore them.
+ */
+export const mergeCatalog = (builtIn: Plant[], records: Record<string, CatalogRecord>): CatalogItem[] => {
+  const builtInIds = new Set(builtIn.map(p => p.id));
+
+  const items: CatalogItem[] = builtIn.map(p => {
+    const record = records[p.id];
+    return record
+      ? { plant: { ...record.plant, id: p.id }, isCustom: false, isEdited: true, retired: record.retired }
+      : { plant: p, isCustom: false, isEdited: false, retired: false };
+  });
+
+  const custom = Object.entries(records)
+    .filter(([id]) => !builtInIds.has(id))
+    .map(([id, record]) => ({ plant: { ...record.plant, id }, isCustom: true, isEdited: false, retired: record.retired }))
+    .sort((a, b) => a.plant.commonName.localeCompare(b.plant.commonName, 'pt-BR'));
+
+  return [...items, ...custom];
+};
+
+export const getActivePlants = (catalog: CatalogItem[]): Plant[] =>
+  catalog.filter(item => !item.retired).map(item => item.plant);
+
+// Stock picture from getImg, still waiting for a real photo of the plant
+export const isPlaceholderImage = (imageUrl: string) => imageUrl.startsWith(PLACEHOLDER_IMAGE_PREFIX);
+
+export type PlantDraft = Omit<Plant, 'id' | 'imageUrl'> & { imageUrl?: string };
+
+export const CARE_FIELDS: (keyof PlantCare)[] = ['watering', 'toxicity', 'environment', 'matureSize', 'floweringSeason', 'soil', 'fertilizing'];
+
+// Only the care guide fields that are filled in
+export const pickPlantCare = (source: PlantCare): PlantCare =>
+  Object.fromEntries(CARE_FIELDS.filter(field => source[field]).map(field => [field, source[field]]));
+
+export const trimPlantDraft = (draft: PlantDraft): PlantDraft => ({
+  ...draft,
+  commonName: draft.commonName.trim(),
+  scientificName: draft.scientificName.trim(),
+  category: draft.category.trim(),
+  trivia: draft.trivia.trim(),
+  imageUrl: draft.imageUrl?.trim() || undefined,
+  // Care guide fields are optional; left blank they are not stored at all
+  watering: draft.watering || undefined,
+  toxicity: draft.toxicity || undefined,
+  environment: draft.environment || undefined,
+  matureSize: draft.matureSize?.trim() || undefined,
+  floweringSeason: draft.floweringSeason?.trim() || undefined,
+  soil: draft.soil?.trim() || undefined,
+  fertilizing: draft.fertilizing?.trim() || undefined
+});
+
+// Returns the problems found, in Portuguese, ready to show to the user
+export const validatePlantDraft = (draft: PlantDraft): string[] => {
+  const errors: string[] = [];
+  if (!draft.commonName.trim()) errors.push('Nome popular é obrigatório.');
+  if (!draft.scientificName.trim()) errors.push('Nome científico é obrigatório.');
+  if (!Object.values(LightRequirement).includes(draft.light)) {
+    errors.push(`Luminosidade inválida: use ${Object.values(LightRequirement).join(', ')}.`);
+  }
+  if (!draft.category.trim()) errors.push('Categoria é obrigatória.');
+  if (!draft.trivia.trim()) errors.push('Curiosidade é obrigatória.');
+  if (draft.watering && !Object.values(WateringFrequency).includes(draft.watering)) {
+    errors.push(`Rega inválida: use ${Object.values(WateringFrequency).join(', ')}.`);
+  }
+  if (draft.toxicity && !Object.values(Toxicity).includes(draft.toxicity)) {
+    errors.push(`Toxicidade inválida: use ${Object.values(Toxicity).join(', ')}.`);
+  }
+  if (draft.environment && !Object.values(PlantEnvironment).includes(draft.environment)) {
+    errors.push(`Ambiente inválido: use ${Object.values(PlantEnvironment).join(', ')}.`);
+  }
+  return errors;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { ImportRowResult, buildCatalogFileEntries, exportCatalogCsv, exportCatalogJson, isEntryUnchanged, parseCsv, validateCsvImport, validateJsonImport } from './catalogIO';
+import { mergeCatalog } from './catalog';
+import { PLANT_DATABASE } from './constants';
+
+describe('parseCsv', () => {
+  it('gives each row the line it starts on', () => {
+    const text = 'id,nome\r\n1,"Jiboia\r\nverde"\r\n\r\n2,Costela\n3,"a\nb\nc"\n4,Zamioculca';
+    expect(parseCsv(text)).toEqual([
+      { line: 1, cells: ['id', 'nome'] },
+      { line: 2, cells: ['1', 'Jiboia\r\nverde'] },
+      { line: 5, cells: ['2', 'Costela'] },
+      { line: 6, cells: ['3', 'a\nb\nc'] },
+      { line: 9, cells: ['4', 'Zamioculca'] }
+    ]);
+  });
+});
+
+describe('validateCsvImport', () => {
+  it('reports the spreadsheet line of a row after a multi-line cell', () => {
+    const text = 'nome popular;nome científico;luz;categoria;curiosidade\n' +
+      'Jiboia;Epipremnum aureum;Meia-sombra;Folhagem;"Cresce rápido.\nPode ser tóxica."\n' +
+      ';;;;\n' +
+      'Sem nome científico;;;;';
+    expect(validateCsvImport(text, new Set()).map(result => result.rowNumber)).toEqual([2, 5]);
+  });
+});
+
+describe('isEntryUnchanged', () => {
+  const catalog = mergeCatalog(PLANT_DATABASE, {});
+  const ids = new Set(catalog.map(item => item.plant.id));
+  const itemsById = new Map(catalog.map(item => [item.plant.id, item]));
+  const countChanged = (results: ImportRowResult[]) =>
+    results.filter(result => !result.entry?.id || !isEntryUnchanged(itemsById.get(result.entry.id)!, result.entry)).length;
+
+  it('finds no change when an untouched export is imported again', () => {
+    const entries = buildCatalogFileEntries(catalog, {}, false);
+    for (const results of [validateCsvImport(exportCatalogCsv(entries), ids), validateJsonImport(exportCatalogJson(entries), ids)]) {
+      expect(results).toHaveLength(catalog.length);
+      expect(results.flatMap(result => result.errors)).toEqual([]);
+      expect(countChanged(results)).toBe(0);
+    }
+  });
+
+  it('keeps the care guide when the file leaves it out', () => {
+    const item = catalog.find(({ plant }) => plant.watering)!;
+    const { commonName, scientificName, light, category, trivia } = item.plant;
+    expect(isEntryUnchanged(item, { id: item.plant.id, commonName, scientificName, light, category, trivia })).toBe(true);
+  });
+
+  it('sees edited fields and retired plants', () => {
+    const [entry] = buildCatalogFileEntries(catalog, {}, false);
+    const item = itemsById.get(entry.id!)!;
+    expect(isEntryUnchanged(item, { ...entry, trivia: `${entry.trivia} Editada.` })).toBe(false);
+    expect(isEntryUnchanged(item, { ...entry, retired: true })).toBe(false);
+  });
+});
@@ -0,0 +1,333 @@
+import { CatalogItem, LightRequirement, PlantEnvironment, Toxicity, WateringFrequency } from './types';
+import { CARE_FIELDS, PlantDraft, isCustomPlantId, pickPlantCare, trimPlantDraft, validatePlantDraft } from './catalog';
+import { normalizeAnswer } from './answerMatching';
+
+// --- Catalog Import / Export (CSV and JSON) ---
+
+export const CATALOG_FILE_FORMAT = 'treinamento-garden-catalog';
+export const CATALOG_FILE_VERSION = 1;
+
+export interface CatalogFileEntry extends PlantDraft {
+  id?: string;
+  retired?: boolean;
+  customImage?: string; // data URL of the photo taken in the app, when embedded
+}
+
+export interface CatalogFile {
+  format: typeof CATALOG_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  plants: CatalogFileEntry[];
+}
+
+export type ImportAction = 'CREATE' | 'UPDATE';
+
+export interface ImportRowResult {
+  rowNumber: number; // as seen by the user: spreadsheet line or position in the JSON list
+  entry: CatalogFileEntry | null;
+  action: ImportAction;
+  errors: string[];
+}
+
+const CSV_COLUMNS: (keyof CatalogFileEntry)[] = [
+  'id', 'commonName', 'scientificName', 'light', 'category', 'trivia',
+  'watering', 'toxicity', 'environment', 'matureSize', 'floweringSeason', 'soil', 'fertilizing',
+  'imageUrl', 'retired', 'customImage'
+];
+
+// Spreadsheet headers in Portuguese are accepted as well as the field names
+const HEADER_ALIASES: Record<string, keyof CatalogFileEntry> = {
+  'id': 'id',
+  'commonname': 'commonName',
+  'nome popular': 'commonName',
+  'nome': 'commonName',
+  'scientificname': 'scientificName',
+  'nome cientifico': 'scientificName',
+  'light': 'light',
+  'luminosidade': 'light',
+  'luz': 'light',
+  'category': 'category',
+  'categoria': 'category',
+  'trivia': 'trivia',
+  'curiosidade': 'trivia',
+  'watering': 'watering',
+  'rega': 'watering',
+  'toxicity': 'toxicity',
+  'toxicidade': 'toxicity',
+  'environment': 'environment',
+  'ambiente': 'environment',
+  'maturesize': 'matureSize',
+  'porte': 'matureSize',
+  'porte adulto': 'matureSize',
+  'floweringseason': 'floweringSeason',
+  'floracao': 'floweringSeason',
+  'soil': 'soil',
+  'solo': 'soil',
+  'fertilizing': 'fertilizing',
+  'adubacao': 'fertilizing',
+  'imageurl': 'imageUrl',
+  'imagem': 'imageUrl',
+  'foto': 'imageUrl',
+  'retired': 'retired',
+  'aposentada': 'retired',
+  'customimage': 'customImage',
+  'foto personalizada': 'customImage'
+};
+
+const LIGHT_ALIASES: Record<string, LightRequirement> = {
+  'full sun': LightRequirement.FULL_SUN,
+  'full_sun': LightRequirement.FULL_SUN,
+  'sol': LightRequirement.FULL_SUN,
+  'partial shade': LightRequirement.PARTIAL_SHADE,
+  'partial_shade': LightRequirement.PARTIAL_SHADE,
+  'shade': LightRequirement.SHADE
+};
+
+export const parseLightRequirement = (value: string): LightRequirement | null => {
+  const normalized = normalizeAnswer(value);
+  const match = Object.values(LightRequirement).find(light => normalizeAnswer(light) === normalized);
+  return match || LIGHT_ALIASES[value.trim().toLowerCase()] || LIGHT_ALIASES[normalized] || null;
+};
+
+// Care guide values are written out in full or by their key (e.g. "TOXIC")
+const parseEnumValue = <T extends string>(values: Record<string, T>, value: string): T | undefined => {
+  const normalized = normalizeAnswer(value);
+  const match = Object.entries(values).find(([key, text]) => normalizeAnswer(text) === normalized || normalizeAnswer(key) === normalized);
+  return match?.[1];
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const normalized = normalizeAnswer(value);
+  if (['', 'false', 'nao', 'n', '0', 'no'].includes(normalized)) return false;
+  if (['true', 'sim', 's', '1', 'yes', 'x'].includes(normalized)) return true;
+  return null;
+};
+
+// --- Export ---
+
+export const buildCatalogFileEntries = (
+  catalog: CatalogItem[],
+  customImages: Record<string, string>,
+  embedImages: boolean
+): CatalogFileEntry[] =>
+  catalog.map(({ plant, retired }) => ({
+    id: plant.id,
+    commonName: plant.commonName,
+    scientificName: plant.scientificName,
+    light: plant.light,
+    category: plant.category,
+    trivia: plant.trivia,
+    ...pickPlantCare(plant),
+    imageUrl: plant.imageUrl,
+    retired,
+    customImage: embedImages ? customImages[plant.id] : undefined
+  }));
+
+export const exportCatalogJson = (entries: CatalogFileEntry[]): string => {
+  const file: CatalogFile = {
+    format: CATALOG_FILE_FORMAT,
+    version: CATALOG_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    plants: entries
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const escapeCsvCell = (value: string, delimiter: string) =>
+  /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolon-separated with a BOM so Excel in pt-BR opens it with accents and columns intact
+export const exportCatalogCsv = (entries: CatalogFileEntry[], delimiter = ';'): string => {
+  const lines = [CSV_COLUMNS.join(delimiter)];
+  entries.forEach(entry => {
+    lines.push(CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if (value === undefined || value === null) return '';
+      if (typeof value === 'boolean') return value ? 'sim' : 'nao';
+      return escapeCsvCell(String(value), delimiter);
+    }).join(delimiter));
+  });
+  return '\uFEFF' + lines.join('\r\n');
+};
+
+// --- Import ---
+
+export interface CsvRow {
+  line: number; // where the row starts; a quoted cell may span several lines
+  cells: string[];
+}
+
+// RFC 4180 parser; the delimiter (',' or ';') is detected from the header line
+export const parseCsv = (text: string): CsvRow[] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (headerLine.match(/;/g) || []).length > (headerLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    const isLineBreak = char === '\n' || (char === '\r' && content[i + 1] !== '\n');
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+        if (isLineBreak) line++;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Spreadsheets often leave fully empty lines, at the end or in between
+  return rows.filter(r => r.cells.some(c => c.trim() !== ''));
+};
+
+const isValidImageUrl = (url: string) => /^https?:\/\//i.test(url) || /^data:image\//i.test(url);
+
+const validateEntry = (raw: Record<string, unknown>, rowNumber: number, existingIds: Set<string>): ImportRowResult => {
+  const errors: string[] = [];
+  const text = (field: keyof CatalogFileEntry) => {
+    const value = raw[field];
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+      errors.push(`Campo "${field}" com formato inválido.`);
+      return '';
+    }
+    return String(value).trim();
+  };
+
+  const lightText = text('light');
+  const light = parseLightRequirement(lightText);
+
+  let retired = false;
+  if (typeof raw.retired === 'boolean') {
+    retired = raw.retired;
+  } else {
+    const parsed = parseBoolean(text('retired'));
+    if (parsed === null) errors.push(`Valor inválido para "aposentada": ${text('retired')}.`);
+    else retired = parsed;
+  }
+
+  const draft = trimPlantDraft({
+    commonName: text('commonName'),
+    scientificName: text('scientificName'),
+    light: light || (lightText as LightRequirement),
+    category: text('category'),
+    trivia: text('trivia'),
+    // Unrecognized values are kept as typed so validatePlantDraft reports them
+    watering: parseEnumValue(WateringFrequency, text('watering')) || (text('watering') as WateringFrequency),
+    toxicity: parseEnumValue(Toxicity, text('toxicity')) || (text('toxicity') as Toxicity),
+    environment: parseEnumValue(PlantEnvironment, text('environment')) || (text('environment') as PlantEnvironment),
+    matureSize: text('matureSize'),
+    floweringSeason: text('floweringSeason'),
+    soil: text('soil'),
+    fertilizing: text('fertilizing'),
+    imageUrl: text('imageUrl') || undefined
+  });
+  errors.push(...validatePlantDraft(draft));
+
+  if (draft.imageUrl && !isValidImageUrl(draft.imageUrl)) errors.push('URL da imagem deve começar com http(s):// ou data:image/.');
+  const customImage = text('customImage') || undefined;
+  if (customImage && !/^data:image\//i.test(customImage)) errors.push('Foto personalizada deve ser uma imagem embutida (data:image/...).');
+
+  const id = text('id') || undefined;
+  // Unknown built-in style ids are not kept, so imported plants can't clash with future built-in ones
+  const keepId = id && (existingIds.has(id) || isCustomPlantId(id)) ? id : undefined;
+
+  return {
+    rowNumber,
+    entry: { ...draft, id: keepId, retired, customImage },
+    action: keepId && existingIds.has(keepId) ? 'UPDATE' : 'CREATE',
+    errors
+  };
+};
+
+const markDuplicateIds = (results: ImportRowResult[]) => {
+  const seen = new Map<string, number>();
+  results.forEach(result => {
+    const id = result.entry?.id;
+    if (!id) return;
+    const firstRow = seen.get(id);
+    if (firstRow !== undefined) result.errors.push(`Id "${id}" repetido (já usado na linha ${firstRow}).`);
+    else seen.set(id, result.rowNumber);
+  });
+  return results;
+};
+
+export const validateCsvImport = (text: string, existingIds: Set<string>): ImportRowResult[] => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.cells.map(h => HEADER_ALIASES[normalizeAnswer(h)] || HEADER_ALIASES[h.trim().toLowerCase()]);
+  return markDuplicateIds(rows.map(({ line, cells }) => {
+    const raw: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      if (column) raw[column] = cells[i] ?? '';
+    });
+    return validateEntry(raw, line, existingIds);
+  }));
+};
+
+export const validateJsonImport = (text: string, existingIds: Set<string>): ImportRowResult[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return [{ rowNumber: 0, entry: null, action: 'CREATE', errors: ['Arquivo JSON inválido.'] }];
+  }
+
+  // Accept both our export format and a bare array of plants
+  const list = Array.isArray(parsed) ? parsed : (parsed as Partial<CatalogFile> | null)?.plants;
+  if (!Array.isArray(list)) {
+    return [{ rowNumber: 0, entry: null, action: 'CREATE', errors: ['O arquivo não contém uma lista de plantas.'] }];
+  }
+
+  return markDuplicateIds(list.map((item, index) =>
+    item && typeof item === 'object'
+      ? validateEntry(item as Record<string, unknown>, index + 1, existingIds)
+      : { rowNumber: index + 1, entry: null, action: 'CREATE' as ImportAction, errors: ['Item não é um objeto.'] }
+  ));
+};
+
+// Only the plant's own fields are compared; `id`, `retired` and `customImage` describe the file row
+const COMPARED_FIELDS: (keyof PlantDraft)[] = ['commonName', 'scientificName', 'light', 'category', 'trivia', ...CARE_FIELDS];
+
+/**
+ * Whether importing `entry` would leave the catalog item as it is, so re-importing an
+ * untouched export doesn't turn every built-in plant into an edited one. Files exported
+ * before the care guide existed leave it out; the plant keeps what it had.
+ */
+export const isEntryUnchanged = (item: CatalogItem, entry: CatalogFileEntry): boolean => {
+  const draft = trimPlantDraft(entry);
+  const fields: PlantDraft = { ...draft, ...pickPlantCare(item.plant), ...pickPlantCare(draft) };
+  return item.retired === !!entry.retired &&
+    COMPARED_FIELDS.every(field => item.plant[field] === fields[field]) &&
+    (!draft.imageUrl || draft.imageUrl === item.plant.imageUrl);
+};
@@ -1,9 +1,57 @@
-import { Plant, LightRequirement } from './types';
+import { Plant, PlantCare, LightRequirement, WateringFrequency, Toxicity, PlantEnvironment, PhotoLabel, QuizDifficulty, QuizQuestionType, CyclePresetId } from './types';
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  SCIENTIFIC_TO_COMMON: 'Nome científico → popular',
+  COMMON_TO_SCIENTIFIC: 'Nome popular → científico',
+  COMMON_TO_LIGHT: 'Luminosidade',
+  COMMON_TO_CATEGORY: 'Categoria',
+  PHOTO_TO_COMMON: 'Foto → nome popular',
+  PHOTO_TO_LIGHT: 'Foto → luminosidade',
+  TRIVIA_TO_COMMON: 'Curiosidade → planta',
+  COMMON_TO_WATERING: 'Rega',
+  COMMON_TO_TOXICITY: 'Toxicidade',
+  COMMON_TO_ENVIRONMENT: 'Interno ou externo'
+};
+
+// In the order they are shown on plant cards
+export const CARE_FIELD_LABELS: Record<keyof PlantCare, string> = {
+  watering: 'Rega',
+  toxicity: 'Toxicidade',
+  environment: 'Ambiente',
+  matureSize: 'Porte adulto',
+  floweringSeason: 'Floração',
+  soil: 'Solo',
+  fertilizing: 'Adubação'
+};
+
+export const PHOTO_LABELS: Record<PhotoLabel, string> = {
+  GERAL: 'Geral',
+  FLOR: 'Flor',
+  FOLHA: 'Folha',
+  MUDA: 'Muda',
+  FRUTO: 'Fruto'
+};
+
+export const DEFAULT_PROFILE_NAME = 'Consultor';
+
+export const DIFFICULTY_LABELS: Record<QuizDifficulty, string> = {
+  EASY: 'Fácil',
+  MEDIUM: 'Médio',
+  HARD: 'Difícil'
+};
+
+export const CYCLE_PRESET_LABELS: Record<CyclePresetId, string> = {
+  QUICK: 'Rápido',
+  BREAK: 'Intervalo',
+  CUSTOM: 'Personalizado'
+};
+
+export const PLACEHOLDER_IMAGE_PREFIX = 'https://picsum.photos/seed/';
 
 // Helper to generate placeholder images based on name to keep them consistent
-const getImg = (name: string, id: number) => `https://picsum.photos/seed/${id}${name.replace(/\s/g, '')}/400/400`;
+export const getImg = (name: string, id: number | string) => `${PLACEHOLDER_IMAGE_PREFIX}${id}${name.replace(/\s/g, '')}/400/400`;
 
-export const PLANT_DATABASE: Plant[] = [
+const BASE_PLANTS: Plant[] = [
   { id: '1', commonName: "Rosa do Deserto", scientificName: "Adenium obesum", light: LightRequirement.FULL_SUN, category: "Ornamental", trivia: "Armazena água no caule (caudex) para resistir à seca.", imageUrl: getImg("RosaDoDeserto", 1) },
   { id: '2', commonName: "Amaryllis", scientificName: "Hippeastrum", light: LightRequirement.PARTIAL_SHADE, category: "Flor", trivia: "Suas flores surgem de bulbos e são muito vistosas.", imageUrl: getImg("Amaryllis", 2) },
   { id: '3', commonName: "Antúrio", scientificName: "Anthurium andraeanum", light: LightRequirement.PARTIAL_SHADE, category: "Flor", trivia: "O que chamamos de flor é, na verdade, uma inflorescência modificada.", imageUrl: getImg("Anturio", 3) },
@@ -92,4 +140,108 @@ export const PLANT_DATABASE: Plant[] = [
   { id: '86', commonName: "Licuala", scientificName: "Licuala grandis", light: LightRequirement.PARTIAL_SHADE, category: "Palmeira", trivia: "Folhas grandes em formato de leque plissado.", imageUrl: getImg("Licuala", 86) },
   { id: '87', commonName: "Palmeira Ráfis", scientificName: "Rhapis excelsa", light: LightRequirement.PARTIAL_SHADE, category: "Palmeira", trivia: "Caule revestido por fibras, muito elegante.", imageUrl: getImg("Rafis", 87) },
   { id: '88', commonName: "Areca Bambu", scientificName: "Dypsis lutescens", light: LightRequirement.PARTIAL_SHADE, category: "Palmeira", trivia: "Uma das palmeiras mais vendidas no mundo.", imageUrl: getImg("Areca", 88) }
-];
\ No newline at end of file
+];
+
+const care = (
+  watering: WateringFrequency,
+  toxicity: Toxicity,
+  environment: PlantEnvironment,
+  matureSize: string,
+  floweringSeason: string,
+  soil: string,
+  fertilizing: string
+): PlantCare => ({ watering, toxicity, environment, matureSize, floweringSeason, soil, fertilizing });
+
+// Care guide of each built-in plant, by id
+const PLANT_CARE: Record<string, PlantCare> = {
+  '1': care(WateringFrequency.LOW, Toxicity.TOXIC, PlantEnvironment.OUTDOOR, "Até 1,5 m em vaso", "Primavera e verão", "Arenoso e bem drenado, como o de cactos", "NPK 4-14-8 a cada 30 dias na primavera e verão"),
+  '2': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.BOTH, "40 a 60 cm", "Fim do inverno e primavera", "Leve, bem drenado e rico em matéria orgânica", "NPK 4-14-8 a cada 30 dias depois da floração"),
+  '3': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "40 a 60 cm", "O ano todo", "Leve e aerado, com casca de pinus", "Adubo para flores (NPK 4-14-8) a cada 30 dias"),
+  '4': care(WateringFrequency.HIGH, Toxicity.TOXIC, PlantEnvironment.OUTDOOR, "20 a 40 cm", "Inverno e primavera", "Ácido e bem drenado", "Adubo para plantas acidófilas a cada 30 dias, fora da floração"),
+  '5': care(WateringFrequency.HIGH, Toxicity.TOXIC, PlantEnvironment.OUTDOOR, "1 a 1,5 m", "Inverno e primavera", "Ácido e bem drenado", "Adubo para plantas acidófilas depois da floração"),
+  '6': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "20 a 30 cm", "O ano todo", "Leve, bem drenado e rico em matéria orgânica", "NPK 4-14-8 a cada 15 dias"),
+  '7': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Até 1 m", "Primavera e verão", "Leve e aerado, sem encharcar", "Adubo líquido para folhagens a cada 30 dias"),
+  '8': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "25 a 40 cm", "Outono e inverno", "Leve e bem drenado; regar só o substrato", "NPK 4-14-8 a cada 15 dias na floração"),
+  '9': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "25 a 40 cm", "Outono e inverno", "Leve e bem drenado; regar só o substrato", "NPK 4-14-8 a cada 15 dias na floração"),
+  '10': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "25 a 40 cm", "Outono e inverno", "Leve e bem drenado; regar só o substrato", "NPK 4-14-8 a cada 15 dias na floração"),
+  '11': care(WateringFrequency.LOW, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "Trepadeira de 3 a 10 m", "Primavera e verão; floresce mais com pouca água", "Terra de jardim, bem drenada", "Rico em fósforo, sem excesso de nitrogênio"),
+  '12': care(WateringFrequency.HIGH, Toxicity.TOXIC, PlantEnvironment.BOTH, "60 a 90 cm", "Inverno e primavera", "Úmido e rico em matéria orgânica", "NPK 4-14-8 a cada 30 dias"),
+  '13': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "30 a 60 cm", "Outono; em vaso, o ano todo", "Fértil e bem drenado", "NPK 4-14-8 a cada 15 dias"),
+  '14': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Forração de até 30 cm", "Primavera e verão", "Terra de jardim, bem drenada", "NPK 10-10-10 a cada 2 meses"),
+  '15': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "30 a 45 cm", "Primavera e verão", "Leve e bem drenado; não molhar o centro da planta", "NPK 4-14-8 a cada 15 dias"),
+  '16': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.BOTH, "Pendente de até 30 cm", "Outono (abril a junho)", "Leve, para epífitas, com casca de pinus", "NPK 4-14-8 a cada 30 dias antes da floração"),
+  '17': care(WateringFrequency.LOW, Toxicity.TOXIC, PlantEnvironment.BOTH, "20 a 40 cm", "Outono, inverno e primavera", "Próprio para suculentas, bem drenado", "NPK 4-14-8 a cada 30 dias"),
+  '18': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "Trepadeira de 3 a 5 m", "Primavera ao outono", "Fértil e bem drenado", "NPK 4-14-8 a cada 15 dias no calor"),
+  '19': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "50 cm a 1,5 m", "Primavera ao outono", "Argiloso, fértil e bem drenado", "Adubo para roseiras a cada 30 dias e depois das podas"),
+  '20': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Árvore de 6 a 12 m (anão: até 3 m)", "Verão e outono", "Fértil, levemente ácido e drenado", "NPK 10-10-10 na primavera e no verão"),
+  '21': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.BOTH, "30 a 50 cm", "Primavera; em vaso, floresce uma vez", "Leve e bem drenado", "Dispensa adubo: o bulbo já tem reserva"),
+  '22': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "Roseta de 15 cm", "O ano todo", "Próprio para violetas; regar pelo pratinho", "Adubo para violetas a cada 15 dias"),
+  '23': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "Roseta de até 8 cm", "O ano todo", "Próprio para violetas; regar pelo pratinho", "Adubo para violetas a cada 15 dias"),
+  '24': care(WateringFrequency.LOW, Toxicity.TOXIC, PlantEnvironment.OUTDOOR, "Até 1,5 m", "O ano todo", "Arenoso e bem drenado", "NPK 4-14-8 a cada 2 meses"),
+  '25': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "3 a 5 m", "Primavera e verão", "Fértil, úmido e rico em matéria orgânica", "Composto orgânico a cada 3 meses"),
+  '26': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.BOTH, "60 cm a 1 m", "Primavera e verão", "Leve e bem drenado", "NPK 4-14-8 no início da brotação"),
+  '27': care(WateringFrequency.HIGH, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "40 a 70 cm", "Primavera e verão", "Rico em matéria orgânica, úmido sem encharcar", "Adubo líquido para folhagens a cada 30 dias"),
+  '28': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "Em vaso até 60 cm; no jardim até 3 m", "Inverno (brácteas vermelhas)", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias, fora do inverno"),
+  '29': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Até 1 m", "Inverno e primavera", "Arenoso e bem drenado", "Húmus de minhoca a cada 3 meses"),
+  '30': care(WateringFrequency.LOW, Toxicity.TOXIC, PlantEnvironment.OUTDOOR, "Até 1 m", "Primavera e verão", "Bem drenado, pode ser pobre", "Húmus de minhoca a cada 3 meses"),
+  '31': care(WateringFrequency.HIGH, Toxicity.IRRITANT, PlantEnvironment.BOTH, "30 a 60 cm", "Verão; cortar as flores prolonga a colheita", "Úmido e rico em matéria orgânica", "Húmus de minhoca a cada 30 dias"),
+  '32': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "30 a 60 cm", "Verão; tirar as flores mantém o sabor", "Fértil e bem drenado", "Húmus de minhoca a cada 30 dias"),
+  '33': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "30 a 60 cm", "Verão; tirar as flores mantém o sabor", "Fértil e bem drenado", "Húmus de minhoca a cada 30 dias"),
+  '34': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Arbusto trepador de 1 a 3 m", "Primavera e verão", "Fértil e bem drenado", "NPK 4-14-8 a cada 30 dias"),
+  '35': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "30 a 50 cm", "Raramente floresce; cultivada pelas folhas", "Leve, aerado e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '36': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Até 60 cm", "Raramente floresce; cultivada pelas folhas", "Leve, aerado e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '37': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "30 a 50 cm", "Raramente floresce; cultivada pelas folhas", "Leve, aerado e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '38': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "30 a 50 cm", "Raramente floresce; cultivada pelas folhas", "Leve, aerado e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '39': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.INDOOR, "40 a 60 cm", "Raramente floresce em vaso", "Aerado, com casca de pinus e perlita", "Adubo líquido para folhagens a cada 30 dias na primavera e verão"),
+  '40': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.INDOOR, "30 a 45 cm", "Raramente floresce em vaso", "Aerado, com casca de pinus e perlita", "Adubo líquido para folhagens a cada 30 dias na primavera e verão"),
+  '41': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.BOTH, "30 a 60 cm", "Flores discretas; perde as folhas e dorme no inverno", "Rico em matéria orgânica e drenado", "NPK 10-10-10 a cada 30 dias na brotação"),
+  '42': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.INDOOR, "Até 75 cm", "Raramente floresce em vaso", "Úmido, rico em matéria orgânica e drenado", "Adubo líquido para folhagens diluído, a cada 30 dias"),
+  '43': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.INDOOR, "Até 60 cm", "Raramente floresce em vaso", "Úmido, rico em matéria orgânica e drenado", "Adubo líquido para folhagens diluído, a cada 30 dias"),
+  '44': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "1 a 2 m", "Flores discretas; cultivado pelas folhas", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias"),
+  '45': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "1 a 3 m", "Primavera (flores pequenas)", "Fértil e bem drenado", "NPK 10-10-10 a cada 2 meses"),
+  '46': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "Pendente de até 60 cm", "Primavera (flores brancas e frutos vermelhos)", "Bem drenado, com matéria orgânica", "NPK 10-10-10 a cada 30 dias"),
+  '47': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Pendente de até 30 cm", "Raramente floresce", "Leve e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '48': care(WateringFrequency.MEDIUM, Toxicity.TOXIC, PlantEnvironment.BOTH, "Trepadeira de vários metros", "Raramente floresce em vaso", "Rico em matéria orgânica e drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '49': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "Trepadeira que cobre muros inteiros", "Flores discretas", "Terra de jardim, bem drenada", "NPK 10-10-10 a cada 3 meses"),
+  '50': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Pendente de vários metros", "Não floresce em vaso", "Leve e bem drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '51': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.INDOOR, "Pendente de até 1 m", "Espigas discretas na primavera", "Leve e bem drenado", "Adubo líquido diluído a cada 2 meses"),
+  '52': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Pendente ou trepadeira de até 2 m", "Não floresce em vaso", "Leve e aerado", "Adubo líquido para folhagens a cada 30 dias"),
+  '53': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "Em vaso, 1 a 3 m", "Não floresce em vaso", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias na primavera e verão"),
+  '54': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Em vaso, 1,5 a 3 m", "Não floresce em vaso", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias na primavera e verão"),
+  '55': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "Árvore de até 15 m; em vaso ou bonsai, bem menor", "Não floresce de forma visível", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias na primavera e verão"),
+  '56': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Em vaso, 1 a 2 m", "Não floresce em vaso", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias na primavera e verão"),
+  '57': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "1 a 3 m", "Raramente floresce em vaso", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias"),
+  '58': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "30 a 60 cm", "Flores discretas; cultivada pelas folhas", "Fértil e úmido", "NPK 10-10-10 a cada 30 dias"),
+  '59': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "20 a 30 cm", "Flores discretas; cultivada pelas folhas", "Leve e drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '60': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "1 a 2 m", "Primavera e verão (flores vermelhas)", "Fértil e drenado", "NPK 10-10-10 a cada 2 meses"),
+  '61': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Forração de até 50 cm", "Quase o ano todo", "Terra de jardim", "NPK 10-10-10 a cada 3 meses"),
+  '62': care(WateringFrequency.LOW, Toxicity.IRRITANT, PlantEnvironment.BOTH, "30 a 40 cm", "O ano todo (flores pequenas entre as folhas)", "Bem drenado, pode ser pobre", "NPK 10-10-10 a cada 3 meses"),
+  '63': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.BOTH, "Em vaso, 1 a 3 m", "Raramente floresce em vaso", "Aerado e rico em matéria orgânica", "Adubo líquido para folhagens a cada 30 dias"),
+  '64': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "Trepadeira de 1 a 3 m no tutor", "Não floresce em vaso", "Aerado, com casca de pinus", "Adubo líquido para folhagens a cada 30 dias"),
+  '65': care(WateringFrequency.VERY_LOW, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "40 a 80 cm", "Raramente floresce", "Leve e muito bem drenado", "Adubo para folhagens a cada 2 meses"),
+  '66': care(WateringFrequency.VERY_LOW, Toxicity.IRRITANT, PlantEnvironment.INDOOR, "40 a 60 cm", "Raramente floresce", "Leve e muito bem drenado", "Adubo para folhagens a cada 2 meses"),
+  '67': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "Trepadeira de vários metros em troncos", "Raramente floresce em cultivo", "Rico em matéria orgânica", "NPK 10-10-10 a cada 2 meses"),
+  '68': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Em vaso até 2 m; no solo até 10 m", "Conífera: não floresce", "Bem drenado, sem encharcar", "NPK 10-10-10 a cada 3 meses"),
+  '69': care(WateringFrequency.MEDIUM, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "3 a 6 m", "Conífera: não floresce", "Fértil e bem drenado", "NPK 10-10-10 a cada 3 meses"),
+  '70': care(WateringFrequency.LOW, Toxicity.IRRITANT, PlantEnvironment.OUTDOOR, "2 a 4 m", "Conífera: não floresce", "Bem drenado, pode ser arenoso", "NPK 10-10-10 a cada 3 meses"),
+  '71': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.BOTH, "Pendente de até 1 m", "Não floresce (se reproduz por esporos)", "Rico em matéria orgânica e sempre úmido", "Adubo para samambaias a cada 30 dias"),
+  '72': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.BOTH, "Pendente de até 1 m", "Não floresce (se reproduz por esporos)", "Rico em matéria orgânica e sempre úmido", "Adubo para samambaias a cada 30 dias"),
+  '73': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.BOTH, "Pendente de até 60 cm", "Não floresce (se reproduz por esporos)", "Rico em matéria orgânica e sempre úmido", "Adubo para samambaias a cada 30 dias"),
+  '74': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "Roseta de até 1 m", "Não floresce (se reproduz por esporos)", "Aerado, com casca de pinus", "Adubo líquido diluído a cada 30 dias"),
+  '75': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.BOTH, "10 a 20 cm", "Primavera e verão (haste floral)", "Arenoso, próprio para suculentas", "NPK 10-10-10 diluído a cada 2 meses"),
+  '76': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.INDOOR, "Folha única em vaso; trepadeira de até 4 m", "Primavera e verão, em plantas adultas", "Leve, próprio para suculentas", "Adubo diluído a cada 2 meses"),
+  '77': care(WateringFrequency.VERY_LOW, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "Até 1 m de diâmetro, crescendo muito devagar", "Verão, só em plantas adultas", "Arenoso, próprio para cactos", "Adubo para cactos no verão"),
+  '78': care(WateringFrequency.LOW, Toxicity.SAFE, PlantEnvironment.BOTH, "Pendente de até 2,5 m", "Primavera e verão (flores vermelhas)", "Arenoso e bem drenado", "Adubo para cactos a cada 30 dias no verão"),
+  '79': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "30 a 60 cm com a haste", "Inverno e primavera; as flores duram até 3 meses", "Casca de pinus ou musgo, nunca terra", "Adubo para orquídeas semanal, bem diluído"),
+  '80': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "30 a 60 cm", "Inverno e primavera", "Casca de pinus ou fixada em troncos", "Adubo para orquídeas semanal, diluído; suspender no inverno"),
+  '81': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "20 a 40 cm; haste floral de até 1 m", "Outono e inverno", "Casca de pinus ou fixada em troncos", "Adubo para orquídeas a cada 15 dias"),
+  '82': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "60 cm a 1 m", "Inverno e primavera; precisa de noites frias", "Casca de pinus com fibra de coco", "Adubo para orquídeas a cada 15 dias"),
+  '83': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.OUTDOOR, "1 a 2 m", "O ano todo", "Terra fértil com matéria orgânica (é terrestre)", "NPK 10-10-10 a cada 30 dias"),
+  '84': care(WateringFrequency.HIGH, Toxicity.SAFE, PlantEnvironment.BOTH, "30 cm a 1 m, com raízes aéreas", "Várias vezes ao ano", "Sem substrato: raízes soltas em cestas", "Adubo foliar para orquídeas semanal"),
+  '85': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "Até 1,5 m", "Pequenas flores amarelas, mesmo em vaso", "Rico em matéria orgânica e drenado", "Adubo líquido para folhagens a cada 30 dias"),
+  '86': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "2 a 3 m", "Raramente floresce em vaso", "Fértil, úmido e drenado", "NPK 10-10-10 a cada 2 meses"),
+  '87': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.INDOOR, "1 a 3 m", "Raramente floresce em vaso", "Fértil e bem drenado", "Adubo para folhagens a cada 2 meses"),
+  '88': care(WateringFrequency.MEDIUM, Toxicity.SAFE, PlantEnvironment.BOTH, "Em vaso 2 a 3 m; no solo até 8 m", "Verão, em plantas adultas no solo", "Fértil e bem drenado", "NPK 10-10-10 a cada 30 dias na primavera e verão"),
+};
+
+export const PLANT_DATABASE: Plant[] = BASE_PLANTS.map(plant => ({ ...plant, ...PLANT_CARE[plant.id] }));
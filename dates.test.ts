@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { addDays, daysBetween, getCurrentStreak, registerActivity, StreakState, toDateKey } from './dates';
+
+const ORIGINAL_TZ = process.env.TZ;
+
+afterEach(() => {
+  process.env.TZ = ORIGINAL_TZ;
+});
+
+describe('toDateKey', () => {
+  it('keeps a study at local midnight and just before it on their own days', () => {
+    process.env.TZ = 'America/Sao_Paulo';
+    expect(toDateKey(new Date(2024, 4, 10, 0, 0, 0))).toBe('2024-05-10');
+    expect(toDateKey(new Date(2024, 4, 9, 23, 59, 59))).toBe('2024-05-09');
+    // 22h in Brazil is already the next day in UTC
+    expect(toDateKey(new Date(2024, 4, 9, 22, 0))).toBe('2024-05-09');
+  });
+
+  it('handles a spring-forward day whose midnight does not exist', () => {
+    // Brazil's last DST started at 00:00 on 2018-11-04, clocks jumped to 01:00
+    process.env.TZ = 'America/Sao_Paulo';
+    expect(toDateKey(new Date(2018, 10, 4, 0, 0))).toBe('2018-11-04');
+    expect(toDateKey(new Date(2018, 10, 3, 23, 59))).toBe('2018-11-03');
+
+    process.env.TZ = 'America/New_York';
+    expect(toDateKey(new Date(2024, 2, 10, 2, 30))).toBe('2024-03-10');
+    expect(toDateKey(new Date(2024, 2, 10, 23, 59))).toBe('2024-03-10');
+  });
+
+  it('handles a fall-back day whose last hour happens twice', () => {
+    // On 2019-02-16 the clocks went from 24:00 back to 23:00
+    process.env.TZ = 'America/Sao_Paulo';
+    const firstPass = new Date(2019, 1, 16, 23, 30);
+    const secondPass = new Date(firstPass.getTime() + 60 * 60 * 1000);
+    expect(toDateKey(firstPass)).toBe('2019-02-16');
+    expect(toDateKey(secondPass)).toBe('2019-02-16');
+    expect(toDateKey(new Date(secondPass.getTime() + 60 * 60 * 1000))).toBe('2019-02-17');
+
+    process.env.TZ = 'America/New_York';
+    expect(toDateKey(new Date(2024, 10, 3, 1, 30))).toBe('2024-11-03');
+    expect(toDateKey(new Date(2024, 10, 3, 23, 59))).toBe('2024-11-03');
+  });
+});
+
+describe('addDays and daysBetween', () => {
+  it('count whole days across DST changes', () => {
+    process.env.TZ = 'America/New_York';
+    expect(addDays('2024-03-09', 1)).toBe('2024-03-10');
+    expect(addDays('2024-03-10', 1)).toBe('2024-03-11');
+    expect(addDays('2024-11-03', -1)).toBe('2024-11-02');
+    expect(daysBetween('2024-03-09', '2024-03-11')).toBe(2);
+    expect(daysBetween('2024-11-02', '2024-11-04')).toBe(2);
+  });
+
+  it('cross months, years and leap days', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-02-29', 1)).toBe('2024-03-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2025-01-01', -1)).toBe('2024-12-31');
+    expect(daysBetween('2024-12-30', '2025-01-02')).toBe(3);
+  });
+
+  it('is negative when the second day is earlier', () => {
+    expect(daysBetween('2024-05-10', '2024-05-07')).toBe(-3);
+    expect(daysBetween('2024-05-10', '2024-05-10')).toBe(0);
+  });
+});
+
+describe('registerActivity', () => {
+  const streak = (streakDays: number, lastStudyDate: string | null, streakFreezes = 0): StreakState =>
+    ({ streakDays, lastStudyDate, streakFreezes });
+
+  it('starts a streak on the first activity', () => {
+    expect(registerActivity(streak(0, null, 1), '2024-05-10')).toEqual(streak(1, '2024-05-10', 1));
+  });
+
+  it('counts several activities on the same day once', () => {
+    const state = streak(3, '2024-05-10');
+    expect(registerActivity(state, '2024-05-10')).toBe(state);
+  });
+
+  it('ignores a device clock set back to an earlier day', () => {
+    const state = streak(3, '2024-05-10');
+    expect(registerActivity(state, '2024-05-08')).toBe(state);
+  });
+
+  it('grows the streak on the next day, across a DST change', () => {
+    process.env.TZ = 'America/Sao_Paulo';
+    const before = toDateKey(new Date(2018, 10, 3, 23, 30));
+    const after = toDateKey(new Date(2018, 10, 4, 1, 30));
+    expect(registerActivity(streak(4, before), after)).toEqual(streak(5, '2018-11-04'));
+  });
+
+  it('earns a freeze every seven days in a row, up to the maximum', () => {
+    expect(registerActivity(streak(6, '2024-05-10'), '2024-05-11')).toEqual(streak(7, '2024-05-11', 1));
+    expect(registerActivity(streak(13, '2024-05-10', 2), '2024-05-11')).toEqual(streak(14, '2024-05-11', 2));
+  });
+
+  it('keeps the streak across missed days covered by freezes', () => {
+    expect(registerActivity(streak(4, '2024-05-10', 2), '2024-05-12')).toEqual(streak(5, '2024-05-12', 1));
+    expect(registerActivity(streak(4, '2024-05-10', 2), '2024-05-13')).toEqual(streak(5, '2024-05-13', 0));
+  });
+
+  it('restarts the streak when the gap is longer than the freezes', () => {
+    expect(registerActivity(streak(9, '2024-05-10', 1), '2024-05-13')).toEqual(streak(1, '2024-05-13', 1));
+    expect(registerActivity(streak(9, '2024-05-10'), '2024-05-12')).toEqual(streak(1, '2024-05-12', 0));
+  });
+});
+
+describe('getCurrentStreak', () => {
+  it('is zero before any activity', () => {
+    expect(getCurrentStreak({ streakDays: 0, lastStudyDate: null, streakFreezes: 2 }, '2024-05-10')).toBe(0);
+  });
+
+  it('keeps the streak on the day of the activity and the next one', () => {
+    const state = { streakDays: 5, lastStudyDate: '2024-05-10', streakFreezes: 0 };
+    expect(getCurrentStreak(state, '2024-05-10')).toBe(5);
+    expect(getCurrentStreak(state, '2024-05-11')).toBe(5);
+  });
+
+  it('keeps the streak while the missed days are covered by freezes', () => {
+    const state = { streakDays: 5, lastStudyDate: '2024-05-10', streakFreezes: 2 };
+    expect(getCurrentStreak(state, '2024-05-13')).toBe(5);
+    expect(getCurrentStreak(state, '2024-05-14')).toBe(0);
+  });
+
+  it('is lost once a day is missed without a freeze', () => {
+    expect(getCurrentStreak({ streakDays: 5, lastStudyDate: '2024-05-10', streakFreezes: 0 }, '2024-05-12')).toBe(0);
+  });
+});
@@ -0,0 +1,77 @@
+// --- Calendar Days (device's local time zone) ---
+
+// Days are stored as 'YYYY-MM-DD' keys of the local calendar, so studying at 22h
+// in Brazil still counts for that day instead of the next UTC one.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const getTodayKey = (now: Date = new Date()) => toDateKey(now);
+
+// Arithmetic on keys is done in UTC, where every day has 24h, so DST never shifts a day
+const keyToUtc = (dateKey: string) => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+export const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(keyToUtc(dateKey) + days * DAY_MS);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+// Whole calendar days from one key to another (negative when `to` is earlier)
+export const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((keyToUtc(toKey) - keyToUtc(fromKey)) / DAY_MS);
+
+// Noon keeps the displayed day stable in any time zone
+export const formatDateKey = (dateKey: string, locale = 'pt-BR') =>
+  new Date(`${dateKey}T12:00:00`).toLocaleDateString(locale);
+
+// --- Streaks ---
+
+export const MAX_STREAK_FREEZES = 2;
+export const DAYS_PER_STREAK_FREEZE = 7; // one freeze earned every 7 days in a row
+
+export interface StreakState {
+  streakDays: number;
+  lastStudyDate: string | null; // last day with a cycle or a quiz
+  streakFreezes: number; // missed days that can be covered without losing the streak
+}
+
+/**
+ * Counts a cycle or quiz done on `today`. Several activities on the same day count
+ * once; missed days are covered by saved freezes when there are enough of them.
+ */
+export const registerActivity = (state: StreakState, today: string): StreakState => {
+  if (!state.lastStudyDate || state.streakDays <= 0) {
+    return { streakDays: 1, lastStudyDate: today, streakFreezes: state.streakFreezes };
+  }
+
+  const gap = daysBetween(state.lastStudyDate, today);
+  // Same day, or the device clock went back: nothing changes
+  if (gap <= 0) return state;
+
+  const missedDays = gap - 1;
+  if (missedDays > state.streakFreezes) {
+    return { streakDays: 1, lastStudyDate: today, streakFreezes: state.streakFreezes };
+  }
+
+  const streakDays = state.streakDays + 1;
+  const earned = streakDays % DAYS_PER_STREAK_FREEZE === 0 ? 1 : 0;
+  return {
+    streakDays,
+    lastStudyDate: today,
+    streakFreezes: Math.min(MAX_STREAK_FREEZES, state.streakFreezes - missedDays + earned)
+  };
+};
+
+// The streak to show today: a stored streak is already lost if the gap can't be covered by freezes
+export const getCurrentStreak = (state: StreakState, today: string): number => {
+  if (!state.lastStudyDate) return 0;
+  const missedDays = daysBetween(state.lastStudyDate, today) - 1;
+  return missedDays > state.streakFreezes ? 0 : state.streakDays;
+};
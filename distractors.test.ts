@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { LightRequirement, Plant } from './types';
+import { getGenus, pickDistractors } from './distractors';
+
+const plant = (id: string, commonName: string, scientificName: string, category: string): Plant => ({
+  id, commonName, scientificName, category, light: LightRequirement.SHADE, trivia: '', imageUrl: ''
+});
+
+const target = plant('1', 'Costela de Adão', 'Monstera deliciosa', 'Folhagem');
+const pool = [
+  target,
+  plant('2', 'Monstera Adansonii', 'Monstera adansonii', 'Folhagem'),
+  plant('3', 'Jiboia', 'Epipremnum aureum', 'Folhagem'),
+  plant('4', 'Cacto', 'Cereus jamacaru', 'Suculenta'),
+  plant('5', 'Orquídea', 'Phalaenopsis amabilis', 'Flor'),
+  plant('6', 'Lírio da Paz', 'Spathiphyllum wallisii', 'Flor')
+];
+const byName = (p: Plant) => p.commonName;
+
+describe('getGenus', () => {
+  it('takes the first word of the scientific name, ignoring case', () => {
+    expect(getGenus(plant('x', '', "Ocimum basilicum 'Purpurascens'", ''))).toBe('ocimum');
+  });
+});
+
+describe('pickDistractors', () => {
+  it('never repeats an option or includes the correct answer', () => {
+    const withDuplicates = [...pool, plant('7', 'jiboia ', 'Epipremnum pinnatum', 'Folhagem'), plant('8', 'Costela de adão', 'Monstera sp.', 'Folhagem')];
+    for (let seed = 0; seed < 10; seed++) {
+      const distractors = pickDistractors(target, withDuplicates, byName, { count: 5, difficulty: 'MEDIUM', random: () => seed / 10 });
+      const keys = distractors.map(text => text.trim().toLowerCase());
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(keys).not.toContain('costela de adão');
+    }
+  });
+
+  it('returns fewer options when the pool is too small', () => {
+    expect(pickDistractors(target, pool.slice(0, 3), byName, { count: 3, difficulty: 'MEDIUM' })).toHaveLength(2);
+    expect(pickDistractors(target, [target], byName, { count: 3, difficulty: 'MEDIUM' })).toEqual([]);
+  });
+
+  it('prefers the same genus, then the same category, when hard', () => {
+    expect(pickDistractors(target, pool, byName, { count: 2, difficulty: 'HARD', random: () => 0 }))
+      .toEqual(['Monstera Adansonii', 'Jiboia']);
+  });
+
+  it('prefers unrelated plants when easy', () => {
+    const distractors = pickDistractors(target, pool, byName, { count: 3, difficulty: 'EASY', random: () => 0 });
+    expect(distractors.slice(0, 3).sort()).toEqual(['Cacto', 'Lírio da Paz', 'Orquídea']);
+  });
+
+  it('leaves out plants for which the question would also be true', () => {
+    const sameScientific = plant('9', 'Banana de Macaco', 'Monstera deliciosa', 'Folhagem');
+    const distractors = pickDistractors(target, [...pool, sameScientific], byName, {
+      count: 5, difficulty: 'MEDIUM', isAmbiguous: p => p.scientificName === target.scientificName
+    });
+    expect(distractors).not.toContain('Banana de Macaco');
+  });
+});
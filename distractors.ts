@@ -0,0 +1,60 @@
+import { Plant, QuizDifficulty } from './types';
+import { shuffle } from './utils';
+
+// --- Distractor Selection for Multiple-Choice Questions ---
+
+export interface DistractorOptions {
+  count: number;
+  difficulty: QuizDifficulty;
+  // Candidates for which the question would also be true (e.g. same scientific name)
+  isAmbiguous?: (candidate: Plant) => boolean;
+  random?: () => number;
+}
+
+const normalizeText = (text: string) => text.trim().toLocaleLowerCase('pt-BR');
+
+// "Ocimum basilicum 'Purpurascens'" -> "ocimum"
+export const getGenus = (plant: Plant) => normalizeText(plant.scientificName.split(/\s+/)[0] || '');
+
+// 2 = same genus, 1 = same category, 0 = unrelated
+const similarity = (target: Plant, candidate: Plant) => {
+  if (getGenus(candidate) === getGenus(target)) return 2;
+  if (candidate.category === target.category) return 1;
+  return 0;
+};
+
+/**
+ * Returns up to `count` distractor texts that are all different from each other and
+ * from the correct answer. EASY prefers unrelated plants, HARD prefers plants of the
+ * same genus and then of the same category, MEDIUM mixes the whole pool.
+ */
+export const pickDistractors = (
+  target: Plant,
+  pool: Plant[],
+  getText: (plant: Plant) => string,
+  { count, difficulty, isAmbiguous, random = Math.random }: DistractorOptions
+): string[] => {
+  const correct = normalizeText(getText(target));
+  const candidates = shuffle(
+    pool.filter(p => p.id !== target.id && normalizeText(getText(p)) !== correct && !isAmbiguous?.(p)),
+    random
+  );
+
+  if (difficulty === 'HARD') {
+    candidates.sort((a, b) => similarity(target, b) - similarity(target, a));
+  } else if (difficulty === 'EASY') {
+    candidates.sort((a, b) => similarity(target, a) - similarity(target, b));
+  }
+
+  const seen = new Set<string>();
+  const distractors: string[] = [];
+  for (const candidate of candidates) {
+    if (distractors.length >= count) break;
+    const text = getText(candidate);
+    const key = normalizeText(text);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    distractors.push(text);
+  }
+  return distractors;
+};
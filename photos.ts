@@ -0,0 +1,120 @@
+import { Plant, PhotoLabel, PlantPhotoInfo } from './types';
+import { isPlaceholderImage } from './catalog';
+
+// --- Plant Photos (several per plant) ---
+
+export interface PlantImage {
+  url: string; // thumbnail for photos taken in the app
+  label?: PhotoLabel; // only photos taken in the app have a label
+  photoId?: string; // set when a full-size version can be loaded
+}
+
+export const createPhotoId = (plantId: string, random: () => number = Math.random) =>
+  `${plantId}:${Date.now().toString(36)}-${Math.floor(random() * 36 ** 4).toString(36)}`;
+
+export const groupPhotosByPlant = <T extends PlantPhotoInfo>(photos: T[]): Record<string, T[]> => {
+  const grouped: Record<string, T[]> = {};
+  [...photos]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(photo => {
+      if (!grouped[photo.plantId]) grouped[photo.plantId] = [];
+      grouped[photo.plantId].push(photo);
+    });
+  return grouped;
+};
+
+// What the gallery shows: the photos taken in the app, or the catalog picture while there are none
+export const getPlantImages = (plant: Plant): PlantImage[] =>
+  plant.photos && plant.photos.length > 0
+    ? plant.photos.map(photo => ({ url: photo.thumbnailUrl, label: photo.label, photoId: photo.id }))
+    : [{ url: plant.imageUrl }];
+
+// Placeholder pictures show some other plant, so only photos taken in the app or set in the catalog count
+export const hasRealPhoto = (plant: Plant) => (plant.photos?.length ?? 0) > 0 || !isPlaceholderImage(plant.imageUrl);
+
+// Photo questions pick any of the plant's photos, so it is recognized in every state
+export const pickPlantImage = (plant: Plant, random: () => number = Math.random): PlantImage => {
+  const images = getPlantImages(plant);
+  return images[Math.floor(random() * images.length)];
+};
+
+// --- Image Files ---
+
+const FULL_IMAGE_MAX_SIZE = 800; // longest side, in pixels
+const THUMBNAIL_MAX_SIZE = 320; // enough for grids and quiz cards on tablets
+
+const loadImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not decode image'));
+    };
+    img.src = url;
+  });
+
+// Scales down (never up) so the longest side fits `maxSize`, as JPEG
+const resizeImage = async (blob: Blob, maxSize: number, quality: number): Promise<Blob> => {
+  const img = await loadImage(blob);
+  const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.width * scale);
+  canvas.height = Math.round(img.height * scale);
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Could not encode image'))), 'image/jpeg', quality);
+  });
+};
+
+// Camera photos are several MB; the tablets only need them at screen size
+export const compressImage = (file: Blob) => resizeImage(file, FULL_IMAGE_MAX_SIZE, 0.75);
+
+export const createThumbnail = (image: Blob) => resizeImage(image, THUMBNAIL_MAX_SIZE, 0.7);
+
+// Backups and catalog files are JSON, so images travel as data URLs
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// --- Device Storage ---
+
+export const STORAGE_WARNING_RATIO = 0.8; // suggest a cleanup from here on
+const STORAGE_LIMIT_RATIO = 0.95; // new photos are refused above this, so progress can still be saved
+
+export interface StorageUsage {
+  usage: number; // bytes used by this app (IndexedDB, caches, localStorage)
+  quota: number; // bytes the browser lets this app use
+}
+
+// null where the Storage API is missing (old browsers, plain http)
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    return quota > 0 ? { usage, quota } : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getUsageRatio = ({ usage, quota }: StorageUsage) => usage / quota;
+
+export const hasRoomFor = (storage: StorageUsage, bytes: number) =>
+  storage.usage + bytes <= storage.quota * STORAGE_LIMIT_RATIO;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} MB`;
+  return `${(bytes / 1024 ** 3).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} GB`;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { LightRequirement, Plant } from './types';
+import { createReview } from './srs';
+import { DEFAULT_PLANT_FILTERS, PlantFilters, PlantStudyState, countActiveFilters, filterPlants, parsePlantFilters, writePlantFilters } from './plantFilters';
+
+const plant = (id: string, commonName: string, scientificName: string, category: string, light: LightRequirement, imageUrl = `https://example.com/${id}.jpg`): Plant => ({
+  id, commonName, scientificName, category, light, trivia: `Curiosidade sobre ${commonName}`, imageUrl
+});
+
+const plants = [
+  plant('1', 'Antúrio', 'Anthurium andraeanum', 'Flor', LightRequirement.PARTIAL_SHADE),
+  plant('2', 'Jiboia', 'Epipremnum aureum', 'Folhagem', LightRequirement.SHADE, 'https://picsum.photos/seed/2Jiboia/400/400'),
+  plant('3', 'Cacto', 'Cereus jamacaru', 'Suculenta', LightRequirement.FULL_SUN),
+  plant('4', 'Bromélia', 'Guzmania lingulata', 'Flor', LightRequirement.PARTIAL_SHADE)
+];
+
+const study: PlantStudyState = {
+  studiedIds: new Set(['1', '2', '3']),
+  reviews: {
+    '1': { ...createReview('1', '2024-05-10'), repetitions: 3, ease: 2.6 },
+    '2': { ...createReview('2', '2024-05-10'), repetitions: 0, ease: 2.3 },
+    '3': { ...createReview('3', '2024-05-10'), repetitions: 2, ease: 2.0 }
+  }
+};
+
+const filters = (fields: Partial<PlantFilters>): PlantFilters => ({ ...DEFAULT_PLANT_FILTERS, ...fields });
+const ids = (result: Plant[]) => result.map(p => p.id);
+
+describe('parsePlantFilters and writePlantFilters', () => {
+  it('reads filters from the URL', () => {
+    const params = new URLSearchParams('q=rosa&category=Flor&category=Folhagem&light=SHADE&photo=REAL&status=WEAK&sort=CATEGORY');
+    expect(parsePlantFilters(params)).toEqual({
+      query: 'rosa', categories: ['Flor', 'Folhagem'], lights: [LightRequirement.SHADE], photos: ['REAL'], statuses: ['WEAK'], sort: 'CATEGORY'
+    });
+  });
+
+  it('drops unknown values', () => {
+    const params = new URLSearchParams('light=MOON&photo=BLURRY&status=MAYBE&sort=RANDOM&category=');
+    expect(parsePlantFilters(params)).toEqual(DEFAULT_PLANT_FILTERS);
+  });
+
+  it('round-trips through the URL and keeps other parameters', () => {
+    const chosen = filters({ query: 'folha', lights: [LightRequirement.FULL_SUN, LightRequirement.SHADE], statuses: ['NOT_STUDIED'], sort: 'WEAKEST' });
+    const params = writePlantFilters(new URLSearchParams('tab=list&q=old'), chosen);
+    expect(params.get('tab')).toBe('list');
+    expect(params.getAll('light')).toEqual(['FULL_SUN', 'SHADE']);
+    expect(parsePlantFilters(params)).toEqual(chosen);
+  });
+
+  it('leaves defaults out of the URL', () => {
+    expect(writePlantFilters(new URLSearchParams(), DEFAULT_PLANT_FILTERS).toString()).toBe('');
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts every selected value but not the search or the sort', () => {
+    expect(countActiveFilters(filters({ query: 'x', categories: ['Flor', 'Folhagem'], statuses: ['WEAK'], sort: 'SCIENTIFIC' }))).toBe(3);
+  });
+});
+
+describe('filterPlants', () => {
+  it('searches every word in names, category and trivia, ignoring accents and case', () => {
+    expect(ids(filterPlants(plants, filters({ query: 'ANTURIO' }), study))).toEqual(['1']);
+    expect(ids(filterPlants(plants, filters({ query: 'flor guzmania' }), study))).toEqual(['4']);
+    expect(ids(filterPlants(plants, filters({ query: 'curiosidade cacto' }), study))).toEqual(['3']);
+  });
+
+  it('matches any selected value within a filter and every filter together', () => {
+    expect(ids(filterPlants(plants, filters({ categories: ['Flor', 'Suculenta'] }), study))).toEqual(['1', '4', '3']);
+    expect(ids(filterPlants(plants, filters({ categories: ['Flor'], statuses: ['NOT_STUDIED'] }), study))).toEqual(['4']);
+    expect(ids(filterPlants(plants, filters({ lights: [LightRequirement.SHADE, LightRequirement.FULL_SUN] }), study))).toEqual(['3', '2']);
+  });
+
+  it('tells real photos from placeholders', () => {
+    expect(ids(filterPlants(plants, filters({ photos: ['PLACEHOLDER'] }), study))).toEqual(['2']);
+    expect(ids(filterPlants(plants, filters({ photos: ['REAL'] }), study))).toHaveLength(3);
+  });
+
+  it('finds weak plants', () => {
+    expect(ids(filterPlants(plants, filters({ statuses: ['WEAK'] }), study))).toEqual(['3', '2']);
+  });
+
+  it('sorts by name, scientific name, category or weakness', () => {
+    expect(ids(filterPlants(plants, filters({}), study))).toEqual(['1', '4', '3', '2']);
+    expect(ids(filterPlants(plants, filters({ sort: 'SCIENTIFIC' }), study))).toEqual(['1', '3', '2', '4']);
+    expect(ids(filterPlants(plants, filters({ sort: 'CATEGORY' }), study))).toEqual(['1', '4', '2', '3']);
+    // Weak ones first, hardest first; never reviewed last
+    expect(ids(filterPlants(plants, filters({ sort: 'WEAKEST' }), study))).toEqual(['3', '2', '1', '4']);
+  });
+});
@@ -0,0 +1,120 @@
+import { LightRequirement, Plant, PlantReview } from './types';
+import { normalizeAnswer } from './answerMatching';
+import { hasRealPhoto } from './photos';
+import { isWeakReview } from './srs';
+
+// --- Study List Search and Filters (kept in the URL so a filtered list can be shared) ---
+
+export type PhotoFilter = 'REAL' | 'PLACEHOLDER';
+export type StudyStatusFilter = 'STUDIED' | 'NOT_STUDIED' | 'WEAK';
+export type PlantSort = 'NAME' | 'SCIENTIFIC' | 'CATEGORY' | 'WEAKEST';
+
+// Each list is a multi-select; an empty list means no filter
+export interface PlantFilters {
+  query: string;
+  categories: string[];
+  lights: LightRequirement[];
+  photos: PhotoFilter[];
+  statuses: StudyStatusFilter[];
+  sort: PlantSort;
+}
+
+export const DEFAULT_PLANT_FILTERS: PlantFilters = {
+  query: '',
+  categories: [],
+  lights: [],
+  photos: [],
+  statuses: [],
+  sort: 'NAME'
+};
+
+export interface PlantStudyState {
+  studiedIds: Set<string>;
+  reviews: Record<string, PlantReview>;
+}
+
+const PHOTO_FILTERS: PhotoFilter[] = ['REAL', 'PLACEHOLDER'];
+const STATUS_FILTERS: StudyStatusFilter[] = ['STUDIED', 'NOT_STUDIED', 'WEAK'];
+const SORTS: PlantSort[] = ['NAME', 'SCIENTIFIC', 'CATEGORY', 'WEAKEST'];
+
+const LIGHT_KEYS = Object.keys(LightRequirement) as (keyof typeof LightRequirement)[];
+
+// Lights travel by key (e.g. "SHADE") so shared links stay readable
+export const parsePlantFilters = (params: URLSearchParams): PlantFilters => {
+  const sort = params.get('sort') as PlantSort;
+  return {
+    query: params.get('q') || '',
+    categories: params.getAll('category').filter(Boolean),
+    lights: params.getAll('light').filter(key => LIGHT_KEYS.includes(key as keyof typeof LightRequirement))
+      .map(key => LightRequirement[key as keyof typeof LightRequirement]),
+    photos: params.getAll('photo').filter((value): value is PhotoFilter => PHOTO_FILTERS.includes(value as PhotoFilter)),
+    statuses: params.getAll('status').filter((value): value is StudyStatusFilter => STATUS_FILTERS.includes(value as StudyStatusFilter)),
+    sort: SORTS.includes(sort) ? sort : DEFAULT_PLANT_FILTERS.sort
+  };
+};
+
+// Writes the filters into `params`, leaving any other parameter as it was
+export const writePlantFilters = (params: URLSearchParams, filters: PlantFilters): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  ['q', 'category', 'light', 'photo', 'status', 'sort'].forEach(key => next.delete(key));
+  if (filters.query) next.set('q', filters.query);
+  filters.categories.forEach(category => next.append('category', category));
+  filters.lights.forEach(light => next.append('light', LIGHT_KEYS.find(key => LightRequirement[key] === light) as string));
+  filters.photos.forEach(photo => next.append('photo', photo));
+  filters.statuses.forEach(status => next.append('status', status));
+  if (filters.sort !== DEFAULT_PLANT_FILTERS.sort) next.set('sort', filters.sort);
+  return next;
+};
+
+export const countActiveFilters = (filters: PlantFilters) =>
+  filters.categories.length + filters.lights.length + filters.photos.length + filters.statuses.length;
+
+const matchesStatus = (plant: Plant, status: StudyStatusFilter, study: PlantStudyState) => {
+  switch (status) {
+    case 'STUDIED': return study.studiedIds.has(plant.id);
+    case 'NOT_STUDIED': return !study.studiedIds.has(plant.id);
+    case 'WEAK': return !!study.reviews[plant.id] && isWeakReview(study.reviews[plant.id]);
+  }
+};
+
+// Every word typed must appear in the names, category or trivia; accents and case don't matter
+const matchesQuery = (plant: Plant, words: string[]) => {
+  if (words.length === 0) return true;
+  const text = normalizeAnswer([plant.commonName, plant.scientificName, plant.category, plant.trivia].join(' '));
+  return words.every(word => text.includes(word));
+};
+
+// Weak plants first, then the ones hardest to recall; plants never reviewed go last
+const weaknessOf = (plant: Plant, study: PlantStudyState): [number, number] => {
+  const review = study.reviews[plant.id];
+  if (!review) return [2, 0];
+  return [isWeakReview(review) ? 0 : 1, review.ease];
+};
+
+const byWeakness = (a: Plant, b: Plant, study: PlantStudyState) => {
+  const [rankA, easeA] = weaknessOf(a, study);
+  const [rankB, easeB] = weaknessOf(b, study);
+  return rankA - rankB || easeA - easeB;
+};
+
+const byName = (a: Plant, b: Plant) => a.commonName.localeCompare(b.commonName, 'pt-BR');
+
+const COMPARATORS: Record<PlantSort, (a: Plant, b: Plant, study: PlantStudyState) => number> = {
+  NAME: byName,
+  SCIENTIFIC: (a, b) => a.scientificName.localeCompare(b.scientificName, 'pt-BR') || byName(a, b),
+  CATEGORY: (a, b) => a.category.localeCompare(b.category, 'pt-BR') || byName(a, b),
+  WEAKEST: (a, b, study) => byWeakness(a, b, study) || byName(a, b)
+};
+
+export const filterPlants = (plants: Plant[], filters: PlantFilters, study: PlantStudyState): Plant[] => {
+  const words = normalizeAnswer(filters.query).split(' ').filter(Boolean);
+  return plants
+    .filter(p =>
+      matchesQuery(p, words) &&
+      (filters.categories.length === 0 || filters.categories.includes(p.category)) &&
+      (filters.lights.length === 0 || filters.lights.includes(p.light)) &&
+      (filters.photos.length === 0 || filters.photos.includes(hasRealPhoto(p) ? 'REAL' : 'PLACEHOLDER')) &&
+      (filters.statuses.length === 0 || filters.statuses.some(status => matchesStatus(p, status, study)))
+    )
+    .sort((a, b) => COMPARATORS[filters.sort](a, b, study));
+};
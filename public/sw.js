@@ -0,0 +1,116 @@
+// Service worker: keeps the app shell and plant photos available without signal.
+//
+// - App files come from precache-manifest.json, written by the build (see vite.config.ts)
+// - Built files with a hash in their name are cache-first: a cached copy is never stale
+// - Pages and every other file are network-first so a new deploy is picked up as soon as there is signal
+// - Photos are cache-first; the app asks for the whole catalog with a CACHE_IMAGES message
+
+const SHELL_CACHE = 'garden-shell-v1';
+const IMAGE_CACHE = 'garden-images-v1';
+const SHELL_URLS = ['./', './index.html', './manifest.webmanifest', './icons/icon.svg', './icons/icon-192.png', './icons/icon-512.png'];
+const MANIFEST_URL = './precache-manifest.json';
+
+// Vite names built files like assets/index-BXRNenKb.js
+const HASHED_ASSET = /\/assets\/[^/]+-[\w-]{8}\.\w+$/;
+
+const toAbsolute = url => new URL(url, self.registration.scope).href;
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    let assets = [];
+    try {
+      assets = await (await fetch(MANIFEST_URL, { cache: 'no-store' })).json();
+    } catch {
+      // Dev server or an old build without the manifest: the shell is still cached
+    }
+    await cache.addAll([...SHELL_URLS, ...assets]);
+    // Kept so activate knows which files belong to this build
+    await cache.put(MANIFEST_URL, new Response(JSON.stringify(assets), { headers: { 'Content-Type': 'application/json' } }));
+    await self.skipWaiting();
+  })());
+});
+
+// Files from previous builds are dropped so the shell cache doesn't grow with every deploy
+const removeOldShellFiles = async () => {
+  const cache = await caches.open(SHELL_CACHE);
+  const stored = await cache.match(MANIFEST_URL);
+  if (!stored) return;
+  const assets = await stored.json();
+  const keep = new Set([...SHELL_URLS, ...assets, MANIFEST_URL].map(toAbsolute));
+  for (const request of await cache.keys()) {
+    if (!keep.has(request.url)) await cache.delete(request);
+  }
+};
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, IMAGE_CACHE];
+    for (const name of await caches.keys()) {
+      if (!keep.includes(name)) await caches.delete(name);
+    }
+    await removeOldShellFiles();
+    await self.clients.claim();
+  })());
+});
+
+// Only complete, readable responses are stored; an opaque one could be an error page in disguise
+const cacheFirst = async (cacheName, request) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// Pages are all the same index.html, stored under one key
+const networkFirst = async (request, cacheKey = request) => {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(cacheKey, response.clone());
+    return response;
+  } catch {
+    return (await cache.match(cacheKey)) || (request.mode === 'navigate' && (await cache.match('./'))) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, './index.html'));
+  } else if (request.destination === 'image') {
+    event.respondWith(cacheFirst(IMAGE_CACHE, request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(HASHED_ASSET.test(url.pathname) ? cacheFirst(SHELL_CACHE, request) : networkFirst(request));
+  }
+});
+
+// { type: 'CACHE_IMAGES', urls } -> replies on the given port with { cached, failed }
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_IMAGES') return;
+  const [port] = event.ports;
+  event.waitUntil((async () => {
+    const cache = await caches.open(IMAGE_CACHE);
+    let cached = 0;
+    let failed = 0;
+    for (const url of event.data.urls) {
+      try {
+        if (!(await cache.match(url))) {
+          // Hosts that don't allow CORS fail here and are counted as failed, not cached blind
+          const response = await fetch(url, { mode: 'cors' });
+          if (!response.ok) throw new Error(`status ${response.status}`);
+          await cache.put(url, response);
+        }
+        cached++;
+      } catch {
+        failed++;
+      }
+    }
+    port?.postMessage({ cached, failed });
+  })());
+});
@@ -0,0 +1,49 @@
+// --- Offline Support (service worker in public/sw.js) ---
+
+export const registerServiceWorker = () => {
+  // The dev server serves sources unbundled, so the worker only runs in production builds
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(e => {
+      console.error('Service worker registration failed', e);
+    });
+  });
+};
+
+export const isOfflineSupported = () => 'serviceWorker' in navigator && import.meta.env.PROD;
+
+export interface ImageCacheResult {
+  cached: number;
+  failed: number;
+}
+
+// Only photos served over http(s) can be cached; blob: and data: URLs (photos taken in
+// the app, the placeholder) are already on the device
+export const getOfflineImageUrls = (urls: string[]) =>
+  Array.from(new Set(urls.filter(url => /^https?:\/\//i.test(url))));
+
+// `ready` never settles when registration failed or the worker is still installing on a slow connection
+const SERVICE_WORKER_READY_TIMEOUT_MS = 10_000;
+
+const waitForServiceWorker = () =>
+  new Promise<ServiceWorkerRegistration>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Service worker not ready')), SERVICE_WORKER_READY_TIMEOUT_MS);
+    navigator.serviceWorker.ready.then(registration => {
+      clearTimeout(timer);
+      resolve(registration);
+    });
+  });
+
+// Asks the service worker to download photos into its cache so cycles and quizzes work without signal
+export const cacheImagesForOffline = async (urls: string[]): Promise<ImageCacheResult> => {
+  const registration = await waitForServiceWorker();
+  const worker = registration.active;
+  if (!worker) throw new Error('No active service worker');
+
+  const remoteUrls = getOfflineImageUrls(urls);
+  return new Promise(resolve => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = event => resolve(event.data as ImageCacheResult);
+    worker.postMessage({ type: 'CACHE_IMAGES', urls: remoteUrls }, [channel.port2]);
+  });
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { LightRequirement, Plant, QuizQuestionType, WateringFrequency } from './types';
+import { DAILY_QUIZ_CONFIG, QuizConfig, buildRetryQuiz, generateQuiz } from './quizEngine';
+
+const plant = (id: string, category: string, light: LightRequirement): Plant => ({
+  id, commonName: `Planta ${id}`, scientificName: `Genus species${id}`, light, category, trivia: `Curiosidade ${id}`, imageUrl: `https://example.com/${id}.jpg`
+});
+
+const plants = [
+  plant('1', 'Folhagem', LightRequirement.SHADE),
+  plant('2', 'Folhagem', LightRequirement.PARTIAL_SHADE),
+  plant('3', 'Flor', LightRequirement.FULL_SUN),
+  plant('4', 'Flor', LightRequirement.PARTIAL_SHADE),
+  plant('5', 'Suculenta', LightRequirement.FULL_SUN),
+  plant('6', 'Suculenta', LightRequirement.FULL_SUN)
+];
+
+// A fixed sequence keeps the shuffles repeatable
+const seeded = (seed = 1) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const config = (fields: Partial<QuizConfig>): QuizConfig => ({ ...DAILY_QUIZ_CONFIG, ...fields });
+
+describe('generateQuiz', () => {
+  it('builds the number of questions asked, numbered from 1', () => {
+    const questions = generateQuiz(plants, config({ questionCount: 10 }), new Set(), seeded());
+    expect(questions.map(q => q.id)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+  });
+
+  it('only asks about plants in scope', () => {
+    const flowers = generateQuiz(plants, config({ questionCount: 6, categories: ['Flor'] }), new Set(), seeded());
+    expect(new Set(flowers.map(q => q.plantId))).toEqual(new Set(['3', '4']));
+
+    const sunny = generateQuiz(plants, config({ questionCount: 6, lights: [LightRequirement.FULL_SUN] }), new Set(), seeded());
+    expect(sunny.every(q => ['3', '5', '6'].includes(q.plantId))).toBe(true);
+
+    const studied = generateQuiz(plants, config({ questionCount: 4, onlyStudied: true }), new Set(['2']), seeded());
+    expect(studied.every(q => q.plantId === '2')).toBe(true);
+  });
+
+  it('returns no questions when nothing is in scope or no type is chosen', () => {
+    expect(generateQuiz(plants, config({ categories: ['Cacto'] }))).toEqual([]);
+    expect(generateQuiz(plants, config({ onlyStudied: true }), new Set())).toEqual([]);
+    expect(generateQuiz(plants, config({ types: [] }))).toEqual([]);
+  });
+
+  it('asks every plant once before repeating one', () => {
+    const questions = generateQuiz(plants, config({ questionCount: 12 }), new Set(), seeded(7));
+    expect(new Set(questions.slice(0, 6).map(q => q.plantId)).size).toBe(6);
+    expect(new Set(questions.slice(6).map(q => q.plantId)).size).toBe(6);
+  });
+
+  it('spreads the chosen question types evenly', () => {
+    const types: QuizQuestionType[] = ['SCIENTIFIC_TO_COMMON', 'COMMON_TO_LIGHT', 'COMMON_TO_CATEGORY'];
+    const questions = generateQuiz(plants, config({ questionCount: 9, types }), new Set(), seeded(3));
+    types.forEach(type => expect(questions.filter(q => q.type === type)).toHaveLength(3));
+  });
+
+  it('has the correct answer among the options', () => {
+    generateQuiz(plants, config({ questionCount: 20 }), new Set(), seeded(5)).forEach(q => {
+      expect(q.options).toContain(q.correctAnswer);
+      expect(new Set(q.options).size).toBe(q.options.length);
+    });
+  });
+
+  it('types only the name questions in typed mode', () => {
+    const questions = generateQuiz(plants, config({ questionCount: 20, answerMode: 'TYPED' }), new Set(), seeded(11));
+    questions.forEach(q => {
+      const isName = ['SCIENTIFIC_TO_COMMON', 'COMMON_TO_SCIENTIFIC', 'PHOTO_TO_COMMON', 'TRIVIA_TO_COMMON'].includes(q.type);
+      expect(q.answerMode).toBe(isName ? 'TYPED' : undefined);
+    });
+  });
+
+  it('asks care questions only about plants with that part of the care guide', () => {
+    const withCare = plants.map(p => (p.id === '1' ? { ...p, watering: WateringFrequency.LOW } : p));
+    const questions = generateQuiz(withCare, config({ questionCount: 6, types: ['COMMON_TO_WATERING'] }), new Set(), seeded());
+    expect(questions.every(q => q.plantId === '1' && q.correctAnswer === WateringFrequency.LOW)).toBe(true);
+  });
+});
+
+describe('buildRetryQuiz', () => {
+  const quiz = generateQuiz(plants, config({ questionCount: 6, answerMode: 'TYPED' }), new Set(), seeded(2));
+  const missed = [quiz[1], quiz[4]];
+
+  it('asks only the missed questions again, renumbered', () => {
+    const retry = buildRetryQuiz(missed, plants, 'MEDIUM', seeded(9));
+    expect(retry.map(q => [q.id, q.plantId, q.type, q.correctAnswer, q.answerMode]))
+      .toEqual(missed.map((q, i) => [i + 1, q.plantId, q.type, q.correctAnswer, q.answerMode]));
+  });
+
+  it('skips plants no longer in the catalog', () => {
+    const retry = buildRetryQuiz(missed, plants.filter(p => p.id !== missed[0].plantId), 'MEDIUM');
+    expect(retry.map(q => q.plantId)).toEqual([missed[1].plantId]);
+  });
+
+  it('is empty when nothing was missed', () => {
+    expect(buildRetryQuiz([], plants, 'MEDIUM')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { Plant, LightRequirement, PlantEnvironment, QuizAnswerMode, QuizDifficulty, QuizQuestion, QuizQuestionType, Toxicity, WateringFrequency } from './types';
+import { pickDistractors } from './distractors';
+import { pickPlantImage } from './photos';
+import { shuffle } from './utils';
+
+// --- Quiz Generation (pure, no React/storage access) ---
+
+export interface QuizConfig {
+  questionCount: number;
+  types: QuizQuestionType[];
+  categories: string[]; // empty means every category
+  lights: LightRequirement[]; // empty means every light requirement
+  onlyStudied: boolean;
+  difficulty: QuizDifficulty;
+  answerMode: QuizAnswerMode;
+}
+
+export const ALL_QUESTION_TYPES: QuizQuestionType[] = [
+  'SCIENTIFIC_TO_COMMON',
+  'COMMON_TO_SCIENTIFIC',
+  'COMMON_TO_LIGHT',
+  'COMMON_TO_CATEGORY',
+  'PHOTO_TO_COMMON',
+  'PHOTO_TO_LIGHT',
+  'TRIVIA_TO_COMMON',
+  'COMMON_TO_WATERING',
+  'COMMON_TO_TOXICITY',
+  'COMMON_TO_ENVIRONMENT'
+];
+
+export const DAILY_QUIZ_CONFIG: QuizConfig = {
+  questionCount: 3,
+  types: ALL_QUESTION_TYPES,
+  categories: [],
+  lights: [],
+  onlyStudied: false,
+  difficulty: 'MEDIUM',
+  answerMode: 'CHOICE'
+};
+
+// Question types whose answer is a plant name, so they can be answered by typing it
+export const TYPED_ANSWER_TYPES: QuizQuestionType[] = [
+  'SCIENTIFIC_TO_COMMON',
+  'COMMON_TO_SCIENTIFIC',
+  'PHOTO_TO_COMMON',
+  'TRIVIA_TO_COMMON'
+];
+
+const OPTIONS_PER_QUESTION = 4;
+
+// Care questions need the care guide, which plants added in the editor may leave out
+export const canAskAbout = (type: QuizQuestionType, plant: Plant): boolean => {
+  switch (type) {
+    case 'COMMON_TO_WATERING': return !!plant.watering;
+    case 'COMMON_TO_TOXICITY': return !!plant.toxicity;
+    case 'COMMON_TO_ENVIRONMENT': return !!plant.environment;
+    default: return true;
+  }
+};
+
+// Plants the quiz is allowed to ask about, and that at least one chosen question type can ask about
+export const getQuizScope = (plants: Plant[], config: QuizConfig, studiedIds: Set<string>): Plant[] =>
+  plants.filter(p =>
+    (config.categories.length === 0 || config.categories.includes(p.category)) &&
+    (config.lights.length === 0 || config.lights.includes(p.light)) &&
+    (!config.onlyStudied || studiedIds.has(p.id)) &&
+    config.types.some(type => canAskAbout(type, p))
+  );
+
+export const buildQuestion = (
+  type: QuizQuestionType,
+  target: Plant,
+  pool: Plant[],
+  id: number,
+  difficulty: QuizDifficulty = 'MEDIUM',
+  random: () => number = Math.random
+): QuizQuestion => {
+  const base = { id, plantId: target.id, type };
+
+  // Correct answer plus up to 3 distractors. Candidates that share the prompt's text
+  // (e.g. the same scientific name) are left out, as they would also be correct.
+  const pickOptions = (getText: (p: Plant) => string, getPromptText?: (p: Plant) => string) => {
+    const distractors = pickDistractors(target, pool, getText, {
+      count: OPTIONS_PER_QUESTION - 1,
+      difficulty,
+      isAmbiguous: getPromptText && (p => getPromptText(p).trim().toLowerCase() === getPromptText(target).trim().toLowerCase()),
+      random
+    });
+    return shuffle([getText(target), ...distractors], random);
+  };
+
+  // Any of the plant's photos; photos taken in the app load in full size on screen
+  const pickImage = () => {
+    const image = pickPlantImage(target, random);
+    return { imageUrl: image.url, photoId: image.photoId };
+  };
+
+  switch (type) {
+    case 'SCIENTIFIC_TO_COMMON':
+      return {
+        ...base,
+        questionText: `Qual o nome popular da planta "${target.scientificName}"?`,
+        correctAnswer: target.commonName,
+        options: pickOptions(p => p.commonName, p => p.scientificName)
+      };
+    case 'COMMON_TO_SCIENTIFIC':
+      return {
+        ...base,
+        questionText: `Qual o nome científico da planta "${target.commonName}"?`,
+        correctAnswer: target.scientificName,
+        options: pickOptions(p => p.scientificName, p => p.commonName)
+      };
+    case 'COMMON_TO_LIGHT':
+      return {
+        ...base,
+        questionText: `Qual a luminosidade ideal para a planta "${target.commonName}"?`,
+        correctAnswer: target.light,
+        options: shuffle(Object.values(LightRequirement), random)
+      };
+    case 'COMMON_TO_CATEGORY':
+      return {
+        ...base,
+        questionText: `A qual categoria pertence a planta "${target.commonName}"?`,
+        correctAnswer: target.category,
+        options: pickOptions(p => p.category)
+      };
+    case 'PHOTO_TO_COMMON':
+      return {
+        ...base,
+        questionText: "Qual o nome desta planta?",
+        ...pickImage(),
+        correctAnswer: target.commonName,
+        options: pickOptions(p => p.commonName)
+      };
+    case 'PHOTO_TO_LIGHT':
+      return {
+        ...base,
+        questionText: "Qual a luminosidade ideal para a planta da foto?",
+        ...pickImage(),
+        correctAnswer: target.light,
+        options: shuffle(Object.values(LightRequirement), random)
+      };
+    case 'TRIVIA_TO_COMMON':
+      return {
+        ...base,
+        questionText: "Qual planta corresponde a esta curiosidade?",
+        supportingText: target.trivia,
+        correctAnswer: target.commonName,
+        options: pickOptions(p => p.commonName)
+      };
+    case 'COMMON_TO_WATERING':
+      return {
+        ...base,
+        questionText: `Com que frequência regar a planta "${target.commonName}"?`,
+        correctAnswer: target.watering as string,
+        options: shuffle(Object.values(WateringFrequency), random)
+      };
+    case 'COMMON_TO_TOXICITY':
+      return {
+        ...base,
+        questionText: `A planta "${target.commonName}" é segura perto de pets e crianças?`,
+        correctAnswer: target.toxicity as string,
+        options: shuffle(Object.values(Toxicity), random)
+      };
+    case 'COMMON_TO_ENVIRONMENT':
+      return {
+        ...base,
+        questionText: `Onde a planta "${target.commonName}" se dá melhor?`,
+        correctAnswer: target.environment as string,
+        options: shuffle(Object.values(PlantEnvironment), random)
+      };
+  }
+};
+
+/**
+ * Builds a quiz from the plants in scope. Question types are spread evenly over
+ * the quiz and no plant is asked twice until every plant in scope was used.
+ * Distractors come from the whole catalog so small scopes still get 4 options.
+ * In TYPED mode only name questions are typed; the others stay multiple choice.
+ * Care questions skip plants without that part of the care guide.
+ */
+export const generateQuiz = (
+  plants: Plant[],
+  config: QuizConfig,
+  studiedIds: Set<string> = new Set(),
+  random: () => number = Math.random
+): QuizQuestion[] => {
+  const scope = getQuizScope(plants, config, studiedIds);
+  if (scope.length === 0 || config.types.length === 0 || config.questionCount <= 0) return [];
+
+  const types = shuffle(config.types, random);
+  let targets: Plant[] = [];
+  const questions: QuizQuestion[] = [];
+
+  for (let i = 0; i < config.questionCount; i++) {
+    if (targets.length === 0) targets = shuffle(scope, random);
+    const target = targets.pop() as Plant;
+    // Keeps the rotation, moving on to the next type when the plant has no answer for this one
+    const type = [...types.slice(i % types.length), ...types.slice(0, i % types.length)].find(t => canAskAbout(t, target)) as QuizQuestionType;
+    const question = buildQuestion(type, target, plants, i + 1, config.difficulty, random);
+    if (config.answerMode === 'TYPED' && TYPED_ANSWER_TYPES.includes(type)) question.answerMode = 'TYPED';
+    questions.push(question);
+  }
+
+  return questions;
+};
+
+// A new round with only the given questions (the ones missed), asked again with fresh options
+export const buildRetryQuiz = (
+  missed: QuizQuestion[],
+  plants: Plant[],
+  difficulty: QuizDifficulty,
+  random: () => number = Math.random
+): QuizQuestion[] =>
+  missed
+    .filter(question => plants.some(p => p.id === question.plantId))
+    .map((question, i) => {
+      const target = plants.find(p => p.id === question.plantId) as Plant;
+      const retry = buildQuestion(question.type, target, plants, i + 1, difficulty, random);
+      if (question.answerMode) retry.answerMode = question.answerMode;
+      return retry;
+    });
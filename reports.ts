@@ -0,0 +1,94 @@
+import { Plant, QuizQuestionType, UserProgress } from './types';
+import { QUESTION_TYPE_LABELS } from './constants';
+import { getAccuracyByType, getStudiedPlantIds } from './stats';
+import { ALL_QUESTION_TYPES } from './quizEngine';
+import { daysBetween, formatDateKey, getCurrentStreak } from './dates';
+
+// --- Team Reports (manager dashboard) ---
+
+export type TeamMemberSource = 'LOCAL' | 'IMPORTED';
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  source: TeamMemberSource;
+  progress: UserProgress;
+}
+
+export interface TeamMemberReport {
+  id: string;
+  name: string;
+  source: TeamMemberSource;
+  streakDays: number;
+  lastActivityDate: string | null; // last cycle or quiz, YYYY-MM-DD
+  daysInactive: number | null; // null when the consultant never trained
+  quizTotalQuestions: number;
+  quizAccuracy: number | null; // 0-100, null without quiz answers
+  accuracyByType: Partial<Record<QuizQuestionType, number>>;
+  studiedCount: number;
+  neverStudied: Plant[];
+}
+
+// Older saves only moved lastStudyDate on cycles, so the history is checked as well
+const getLastActivityDate = (progress: UserProgress): string | null =>
+  progress.history.reduce<string | null>(
+    (latest, session) => (!latest || session.date > latest ? session.date : latest),
+    progress.lastStudyDate
+  );
+
+export const buildMemberReport = (member: TeamMember, plants: Plant[], today: string): TeamMemberReport => {
+  const { progress } = member;
+  const studiedIds = getStudiedPlantIds(progress);
+  const lastActivityDate = getLastActivityDate(progress);
+
+  return {
+    id: member.id,
+    name: member.name,
+    source: member.source,
+    streakDays: getCurrentStreak(progress, today),
+    lastActivityDate,
+    daysInactive: lastActivityDate ? Math.max(0, daysBetween(lastActivityDate, today)) : null,
+    quizTotalQuestions: progress.quizTotalQuestions,
+    quizAccuracy: progress.quizTotalQuestions > 0
+      ? Math.round((progress.quizCorrectAnswers / progress.quizTotalQuestions) * 100)
+      : null,
+    accuracyByType: Object.fromEntries(getAccuracyByType(progress.answers).map(stat => [stat.key, stat.accuracy])),
+    studiedCount: plants.filter(p => studiedIds.has(p.id)).length,
+    neverStudied: plants.filter(p => !studiedIds.has(p.id))
+  };
+};
+
+// Longest inactive first; consultants who never trained lead the list
+export const buildTeamReport = (members: TeamMember[], plants: Plant[], today: string): TeamMemberReport[] =>
+  members
+    .map(member => buildMemberReport(member, plants, today))
+    .sort((a, b) => (b.daysInactive ?? Infinity) - (a.daysInactive ?? Infinity) || a.name.localeCompare(b.name, 'pt-BR'));
+
+export const isInactiveFor = (report: TeamMemberReport, days: number) =>
+  report.daysInactive === null || report.daysInactive >= days;
+
+// --- Export ---
+
+const escapeCsvCell = (value: string) => (/[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Same layout as the catalog export: semicolons and a BOM for Excel in pt-BR
+export const exportTeamReportCsv = (reports: TeamMemberReport[]): string => {
+  const header = [
+    'Consultor', 'Origem', 'Dias seguidos', 'Última atividade', 'Dias sem treinar', 'Perguntas no quiz', 'Acerto no quiz (%)',
+    ...ALL_QUESTION_TYPES.map(type => `Acerto: ${QUESTION_TYPE_LABELS[type]} (%)`),
+    'Plantas estudadas', 'Plantas nunca estudadas'
+  ];
+  const rows = reports.map(r => [
+    r.name,
+    r.source === 'LOCAL' ? 'Este aparelho' : 'Backup importado',
+    String(r.streakDays),
+    r.lastActivityDate ? formatDateKey(r.lastActivityDate) : '',
+    r.daysInactive === null ? 'nunca treinou' : String(r.daysInactive),
+    String(r.quizTotalQuestions),
+    r.quizAccuracy === null ? '' : String(r.quizAccuracy),
+    ...ALL_QUESTION_TYPES.map(type => (r.accuracyByType[type] === undefined ? '' : String(r.accuracyByType[type]))),
+    String(r.studiedCount),
+    r.neverStudied.map(p => p.commonName).join(', ')
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvCell).join(';')).join('\r\n');
+};
@@ -0,0 +1,147 @@
+// Local stand-in for the leaderboard backend, for development and tests.
+// Run with `npm run sync-server` and start the app with VITE_SYNC_URL=http://localhost:8787
+//
+// POST /api/scores               { userId, name, sessions, uploadedAt } - replaces that user's data
+// GET  /api/leaderboard/weekly   ?week=YYYY-MM-DD (any day of the week; defaults to today)
+// GET  /api/health
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+// Optional JSON file so scores survive restarts; kept in memory only when unset
+const DATA_FILE = process.env.LEADERBOARD_DATA || '';
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** @type {Map<string, { userId: string, name: string, sessions: any[], uploadedAt: string }>} */
+const users = new Map();
+
+if (DATA_FILE && existsSync(DATA_FILE)) {
+  JSON.parse(readFileSync(DATA_FILE, 'utf8')).forEach(user => users.set(user.userId, user));
+}
+
+const persist = () => {
+  if (DATA_FILE) writeFileSync(DATA_FILE, JSON.stringify(Array.from(users.values()), null, 2));
+};
+
+// --- Weekly ranking ---
+
+const toDateKey = date => date.toISOString().split('T')[0];
+
+// Weeks start on Monday; works on YYYY-MM-DD keys so time zones don't move sessions
+const getWeekStart = dateKey => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return toDateKey(date);
+};
+
+// Same scale as the app: 10 points per plant studied in a cycle, 5 per correct quiz answer
+const getSessionPoints = session => {
+  if (session.type === 'CYCLE') return (session.plantIds?.length || 0) * 10;
+  if (session.type === 'QUIZ') return Math.round((Number(session.score) || 0) * 5);
+  return 0;
+};
+
+const computeWeeklyLeaderboard = weekStart => {
+  const entries = Array.from(users.values())
+    .map(user => ({
+      userId: user.userId,
+      name: user.name,
+      points: user.sessions
+        .filter(s => typeof s.date === 'string' && getWeekStart(s.date) === weekStart)
+        .reduce((sum, s) => sum + getSessionPoints(s), 0)
+    }))
+    .filter(entry => entry.points > 0)
+    .sort((a, b) => b.points - a.points || a.name.localeCompare(b.name, 'pt-BR'));
+
+  // Ties share a rank (1, 2, 2, 4)
+  return {
+    weekStart,
+    entries: entries.map((entry, i) => ({
+      ...entry,
+      rank: i > 0 && entries[i - 1].points === entry.points ? entries.findIndex(e => e.points === entry.points) + 1 : i + 1
+    }))
+  };
+};
+
+// --- HTTP ---
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readJson = req => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch (e) {
+      reject(e);
+    }
+  });
+  req.on('error', reject);
+});
+
+const isValidUpload = body =>
+  body && typeof body.userId === 'string' && body.userId &&
+  typeof body.name === 'string' && Array.isArray(body.sessions);
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (req.method === 'GET' && url.pathname === '/api/health') return send(res, 200, { ok: true });
+
+  if (req.method === 'POST' && url.pathname === '/api/scores') {
+    let body;
+    try {
+      body = await readJson(req);
+    } catch {
+      return send(res, 400, { error: 'Invalid JSON body' });
+    }
+    if (!isValidUpload(body)) return send(res, 400, { error: 'Expected { userId, name, sessions }' });
+
+    const previous = users.get(body.userId);
+    // Uploads can arrive out of order after an offline period; keep the newest
+    if (!previous || String(body.uploadedAt || '') >= String(previous.uploadedAt || '')) {
+      users.set(body.userId, {
+        userId: body.userId,
+        name: body.name.trim() || 'Sem nome',
+        sessions: body.sessions,
+        uploadedAt: String(body.uploadedAt || new Date().toISOString())
+      });
+      persist();
+    }
+    return send(res, 204);
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/leaderboard/weekly') {
+    const week = url.searchParams.get('week');
+    if (week && !/^\d{4}-\d{2}-\d{2}$/.test(week)) return send(res, 400, { error: 'week must be YYYY-MM-DD' });
+    return send(res, 200, computeWeeklyLeaderboard(getWeekStart(week || toDateKey(new Date()))));
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Leaderboard stand-in listening on http://localhost:${PORT}${DATA_FILE ? ` (data: ${DATA_FILE})` : ''}`);
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { LightRequirement, Plant, PlantReview } from './types';
+import { applyReview, createReview, gradeFromQuizCredit, isWeakReview, selectPlantsForCycle } from './srs';
+
+const TODAY = '2024-05-10';
+
+const plant = (id: string): Plant => ({
+  id, commonName: `Planta ${id}`, scientificName: `Genus ${id}`, light: LightRequirement.SHADE, category: 'Folhagem', trivia: '', imageUrl: ''
+});
+
+const review = (plantId: string, fields: Partial<PlantReview>): PlantReview => ({ ...createReview(plantId, TODAY), ...fields });
+
+describe('applyReview', () => {
+  it('starts a new plant at one day when recalled', () => {
+    expect(applyReview(undefined, 'p1', 'GOOD', TODAY)).toEqual({
+      plantId: 'p1', ease: 2.5, intervalDays: 1, repetitions: 1, lapses: 0, dueDate: '2024-05-11', lastReviewedDate: TODAY
+    });
+  });
+
+  it('grows the interval with each good recall', () => {
+    let current = applyReview(undefined, 'p1', 'GOOD', TODAY);
+    current = applyReview(current, 'p1', 'GOOD', current.dueDate);
+    expect(current).toMatchObject({ intervalDays: 3, repetitions: 2, dueDate: '2024-05-14' });
+    current = applyReview(current, 'p1', 'GOOD', current.dueDate);
+    expect(current).toMatchObject({ intervalDays: 8, repetitions: 3, dueDate: '2024-05-22' });
+  });
+
+  it('jumps further and raises the ease on an easy recall', () => {
+    expect(applyReview(undefined, 'p1', 'EASY', TODAY)).toMatchObject({ intervalDays: 3, ease: 2.65 });
+    expect(applyReview(review('p1', { intervalDays: 10, repetitions: 3 }), 'p1', 'EASY', TODAY)).toMatchObject({ intervalDays: 33 });
+  });
+
+  it('grows slowly and lowers the ease on a hard recall', () => {
+    expect(applyReview(review('p1', { intervalDays: 10, repetitions: 3 }), 'p1', 'HARD', TODAY))
+      .toMatchObject({ intervalDays: 12, ease: 2.35, repetitions: 4 });
+    expect(applyReview(undefined, 'p1', 'HARD', TODAY)).toMatchObject({ intervalDays: 1 });
+  });
+
+  it('resets a forgotten plant to today and counts a lapse', () => {
+    const learned = review('p1', { intervalDays: 20, repetitions: 4, ease: 2.5 });
+    expect(applyReview(learned, 'p1', 'AGAIN', TODAY)).toMatchObject({
+      intervalDays: 0, repetitions: 0, lapses: 1, ease: 2.3, dueDate: TODAY
+    });
+    // Not a lapse when it was never learned
+    expect(applyReview(undefined, 'p1', 'AGAIN', TODAY)).toMatchObject({ lapses: 0 });
+  });
+
+  it('keeps the ease within its limits', () => {
+    expect(applyReview(review('p1', { ease: 1.35 }), 'p1', 'AGAIN', TODAY).ease).toBe(1.3);
+    expect(applyReview(review('p1', { ease: 2.95, repetitions: 1, intervalDays: 1 }), 'p1', 'EASY', TODAY).ease).toBe(3);
+  });
+});
+
+describe('selectPlantsForCycle', () => {
+  const plants = ['a', 'b', 'c', 'd', 'e'].map(plant);
+
+  it('puts due plants first, the most overdue and weakest before the others', () => {
+    const reviews = {
+      a: review('a', { dueDate: '2024-05-09', ease: 2.5 }),
+      b: review('b', { dueDate: '2024-05-08', ease: 2.5 }),
+      c: review('c', { dueDate: '2024-05-09', ease: 1.8 }),
+      d: review('d', { dueDate: '2024-05-20' })
+    };
+    expect(selectPlantsForCycle(plants, reviews, 5, TODAY, () => 0).map(p => p.id)).toEqual(['b', 'c', 'a', 'e', 'd']);
+  });
+
+  it('fills the cycle with unseen plants, then the ones due soonest', () => {
+    const reviews = {
+      a: review('a', { dueDate: '2024-05-30' }),
+      b: review('b', { dueDate: '2024-05-12' }),
+      c: review('c', { dueDate: '2024-05-20' })
+    };
+    const selected = selectPlantsForCycle(plants, reviews, 4, TODAY, () => 0).map(p => p.id);
+    expect(selected.slice(0, 2).sort()).toEqual(['d', 'e']);
+    expect(selected.slice(2)).toEqual(['b', 'c']);
+  });
+
+  it('never returns more plants than asked or than there are', () => {
+    expect(selectPlantsForCycle(plants, {}, 2, TODAY)).toHaveLength(2);
+    expect(selectPlantsForCycle(plants, {}, 10, TODAY)).toHaveLength(5);
+    expect(selectPlantsForCycle([], {}, 3, TODAY)).toEqual([]);
+  });
+});
+
+describe('gradeFromQuizCredit', () => {
+  it('maps a miss, a near miss and a hit to review grades', () => {
+    expect(gradeFromQuizCredit(0)).toBe('AGAIN');
+    expect(gradeFromQuizCredit(0.5)).toBe('HARD');
+    expect(gradeFromQuizCredit(1)).toBe('GOOD');
+  });
+});
+
+describe('isWeakReview', () => {
+  it('is weak when just forgotten or often hard to recall', () => {
+    expect(isWeakReview(review('p1', { repetitions: 0 }))).toBe(true);
+    expect(isWeakReview(review('p1', { repetitions: 3, ease: 2.0 }))).toBe(true);
+    expect(isWeakReview(review('p1', { repetitions: 3, ease: 2.5 }))).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { Plant, PlantReview, ReviewGrade } from './types';
+import { shuffle } from './utils';
+import { addDays } from './dates';
+
+// --- Spaced Repetition (SM-2 style) ---
+
+export const REVIEW_GRADES: ReviewGrade[] = ['AGAIN', 'HARD', 'GOOD', 'EASY'];
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_EASE = 3.0;
+
+const WEAK_EASE = 2.2; // about two lapses more than easy recalls
+
+const clampEase = (ease: number) => Math.min(MAX_EASE, Math.max(MIN_EASE, ease));
+
+export const createReview = (plantId: string, today: string): PlantReview => ({
+  plantId,
+  ease: DEFAULT_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueDate: today,
+  lastReviewedDate: null
+});
+
+// Returns the next review state for a plant after the consultant's recall was graded
+export const applyReview = (
+  review: PlantReview | undefined,
+  plantId: string,
+  grade: ReviewGrade,
+  today: string
+): PlantReview => {
+  const current = review || createReview(plantId, today);
+  let { ease, intervalDays, repetitions, lapses } = current;
+
+  switch (grade) {
+    case 'AGAIN':
+      // Forgotten: back to the start, due again in the next cycle of the day
+      ease = clampEase(ease - 0.2);
+      repetitions = 0;
+      intervalDays = 0;
+      if (current.repetitions > 0) lapses++;
+      break;
+    case 'HARD':
+      ease = clampEase(ease - 0.15);
+      intervalDays = Math.max(1, Math.round(intervalDays * 1.2));
+      repetitions++;
+      break;
+    case 'GOOD':
+      if (repetitions === 0) intervalDays = 1;
+      else if (repetitions === 1) intervalDays = 3;
+      else intervalDays = Math.max(intervalDays + 1, Math.round(intervalDays * ease));
+      repetitions++;
+      break;
+    case 'EASY':
+      if (repetitions === 0) intervalDays = 3;
+      else intervalDays = Math.max(intervalDays + 1, Math.round(intervalDays * ease * 1.3));
+      ease = clampEase(ease + 0.15);
+      repetitions++;
+      break;
+  }
+
+  return {
+    plantId,
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    repetitions,
+    lapses,
+    dueDate: addDays(today, intervalDays),
+    lastReviewedDate: today
+  };
+};
+
+// Still a struggle: forgotten the last time, or often hard to recall
+export const isWeakReview = (review: PlantReview) => review.repetitions === 0 || review.ease < WEAK_EASE;
+
+// Quiz answers count as a review: a miss is treated as forgotten, a hit as a normal recall
+// and a typed answer with small typos (partial credit) as a hard recall
+export const gradeFromQuizCredit = (credit: number): ReviewGrade => {
+  if (credit >= 1) return 'GOOD';
+  if (credit > 0) return 'HARD';
+  return 'AGAIN';
+};
+
+/**
+ * Picks the plants for a study cycle:
+ * 1. plants that are due (most overdue and weakest first),
+ * 2. then plants never reviewed, in random order,
+ * 3. then the ones coming due soonest.
+ */
+export const selectPlantsForCycle = (
+  plants: Plant[],
+  reviews: Record<string, PlantReview>,
+  count: number,
+  today: string,
+  random: () => number = Math.random
+): Plant[] => {
+  const due: Plant[] = [];
+  const unseen: Plant[] = [];
+  const upcoming: Plant[] = [];
+
+  plants.forEach(p => {
+    const review = reviews[p.id];
+    if (!review) unseen.push(p);
+    else if (review.dueDate <= today) due.push(p);
+    else upcoming.push(p);
+  });
+
+  due.sort((a, b) => {
+    const ra = reviews[a.id];
+    const rb = reviews[b.id];
+    if (ra.dueDate !== rb.dueDate) return ra.dueDate < rb.dueDate ? -1 : 1;
+    if (ra.ease !== rb.ease) return ra.ease - rb.ease;
+    return rb.lapses - ra.lapses;
+  });
+
+  upcoming.sort((a, b) => (reviews[a.id].dueDate < reviews[b.id].dueDate ? -1 : 1));
+
+  return [...due, ...shuffle(unseen, random), ...upcoming].slice(0, count);
+};
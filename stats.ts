@@ -0,0 +1,80 @@
+import { Plant, QuizAnswerRecord, QuizQuestionType, UserProgress } from './types';
+
+// --- Answer History Statistics ---
+
+export interface AccuracyStat<K extends string> {
+  key: K;
+  correct: number;
+  total: number;
+  accuracy: number; // 0-100
+}
+
+export interface MissedPlantStat {
+  plant: Plant;
+  misses: number;
+  total: number;
+  accuracy: number; // 0-100
+}
+
+const toPercent = (correct: number, total: number) => (total > 0 ? Math.round((correct / total) * 100) : 0);
+
+const groupAccuracy = <K extends string>(answers: QuizAnswerRecord[], getKey: (a: QuizAnswerRecord) => K | undefined): AccuracyStat<K>[] => {
+  const groups = new Map<K, { correct: number; total: number }>();
+  answers.forEach(a => {
+    const key = getKey(a);
+    if (key === undefined) return;
+    const group = groups.get(key) || { correct: 0, total: 0 };
+    group.total++;
+    if (a.isCorrect) group.correct++;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, { correct, total }]) => ({ key, correct, total, accuracy: toPercent(correct, total) }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total);
+};
+
+// Weakest first
+export const getAccuracyByType = (answers: QuizAnswerRecord[]): AccuracyStat<QuizQuestionType>[] =>
+  groupAccuracy(answers, a => a.questionType);
+
+// Weakest first; answers about plants no longer in the catalog are ignored
+export const getAccuracyByCategory = (answers: QuizAnswerRecord[], plants: Plant[]): AccuracyStat<string>[] => {
+  const categoryById = new Map(plants.map(p => [p.id, p.category]));
+  return groupAccuracy(answers, a => categoryById.get(a.plantId));
+};
+
+export const getMostMissedPlants = (answers: QuizAnswerRecord[], plants: Plant[], limit = 5): MissedPlantStat[] => {
+  const plantById = new Map(plants.map(p => [p.id, p]));
+  const counts = new Map<string, { misses: number; total: number }>();
+  answers.forEach(a => {
+    const entry = counts.get(a.plantId) || { misses: 0, total: 0 };
+    entry.total++;
+    if (!a.isCorrect) entry.misses++;
+    counts.set(a.plantId, entry);
+  });
+
+  const result: MissedPlantStat[] = [];
+  counts.forEach(({ misses, total }, plantId) => {
+    const plant = plantById.get(plantId);
+    if (plant && misses > 0) {
+      result.push({ plant, misses, total, accuracy: toPercent(total - misses, total) });
+    }
+  });
+
+  return result
+    .sort((a, b) => b.misses - a.misses || a.accuracy - b.accuracy)
+    .slice(0, limit);
+};
+
+// Plants the consultant has already seen in a cycle, a quiz or a review
+export const getStudiedPlantIds = (progress: UserProgress): Set<string> => {
+  const ids = new Set<string>(Object.keys(progress.reviews));
+  progress.history.forEach(session => session.plantIds?.forEach(id => ids.add(id)));
+  progress.answers.forEach(a => ids.add(a.plantId));
+  return ids;
+};
+
+// Ranking points: studying a plant is worth 10, each correct quiz answer 5
+export const getProgressPoints = (progress: UserProgress) =>
+  progress.plantsStudiedCount * 10 + progress.quizCorrectAnswers * 5;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyProgress, parseStoredProgress, PROGRESS_MIGRATIONS, PROGRESS_SCHEMA_VERSION, readProgress, serializeProgress } from './storage';
+
+const [toV1, toV2] = PROGRESS_MIGRATIONS;
+
+const session = (date: string) => ({ date, type: 'CYCLE', plantIds: ['p1'] });
+
+describe('v0 -> v1 migration', () => {
+  it('adds empty reviews and answers to a first-release save', () => {
+    const data = { plantsStudiedCount: 3, history: [session('2024-05-10')] };
+    expect(toV1(data)).toEqual({ ...data, reviews: {}, answers: [] });
+  });
+
+  it('keeps reviews and answers that are already there', () => {
+    const data = { history: [], reviews: { p1: { plantId: 'p1' } }, answers: [{ plantId: 'p1' }] };
+    expect(toV1(data)).toEqual(data);
+  });
+
+  it('replaces fields of the wrong type', () => {
+    expect(toV1({ history: 'x', reviews: [], answers: {} })).toEqual({ history: [], reviews: {}, answers: [] });
+  });
+});
+
+describe('v1 -> v2 migration', () => {
+  it('adds freezes and takes the last study day from the sessions', () => {
+    const data = { lastStudyDate: '2024-05-08', history: [session('2024-05-10'), session('2024-05-09')] };
+    expect(toV2(data)).toMatchObject({ streakFreezes: 0, lastStudyDate: '2024-05-10' });
+  });
+
+  it('keeps the stored day when it is the latest, and existing freezes', () => {
+    const data = { lastStudyDate: '2024-05-12', streakFreezes: 2, history: [session('2024-05-10')] };
+    expect(toV2(data)).toMatchObject({ streakFreezes: 2, lastStudyDate: '2024-05-12' });
+  });
+
+  it('does not throw on a history that is not a list', () => {
+    expect(toV2({ lastStudyDate: '2024-05-08', history: 'broken' })).toMatchObject({ lastStudyDate: '2024-05-08', history: 'broken' });
+    expect(toV2({})).toMatchObject({ streakFreezes: 0, lastStudyDate: null });
+  });
+
+  it('skips sessions and dates that are not valid days', () => {
+    const data = { lastStudyDate: 'yesterday', history: [null, 7, { date: 'soon' }, session('2024-05-09')] };
+    expect(toV2(data)).toMatchObject({ lastStudyDate: '2024-05-09' });
+  });
+});
+
+describe('parseStoredProgress', () => {
+  it('migrates a bare first-release save to the current schema', () => {
+    const stored = JSON.stringify({
+      plantsStudiedCount: 2, lastStudyDate: null, streakDays: 1, quizTotalQuestions: 0, quizCorrectAnswers: 0,
+      history: [{ date: '2024-05-10', type: 'QUIZ', score: 3 }]
+    });
+    const { progress, status, problems } = parseStoredProgress(stored);
+    expect(status).toBe('MIGRATED');
+    expect(problems).toEqual([]);
+    expect(progress).toMatchObject({ lastStudyDate: '2024-05-10', streakFreezes: 0, reviews: {}, answers: [] });
+  });
+
+  it('repairs a v1 save whose history is broken instead of failing', () => {
+    const data = { ...createEmptyProgress(), history: 'broken' };
+    const { progress, status } = parseStoredProgress(JSON.stringify({ version: 1, savedAt: '', data }));
+    expect(status).toBe('REPAIRED');
+    expect(progress.history).toEqual([]);
+  });
+
+  it('falls back to repair when a migration step throws', () => {
+    const original = PROGRESS_MIGRATIONS[1];
+    PROGRESS_MIGRATIONS[1] = () => { throw new Error('boom'); };
+    try {
+      const data = { ...createEmptyProgress(), plantsStudiedCount: 4 };
+      const { progress, status, problems } = parseStoredProgress(JSON.stringify({ version: 1, savedAt: '', data }));
+      expect(status).toBe('REPAIRED');
+      expect(problems).toContain('migration from version 1 failed');
+      expect(progress.plantsStudiedCount).toBe(4);
+    } finally {
+      PROGRESS_MIGRATIONS[1] = original;
+    }
+  });
+
+  it('reads back what it saved', () => {
+    const progress = { ...createEmptyProgress(), streakDays: 3, lastStudyDate: '2024-05-10' };
+    expect(parseStoredProgress(serializeProgress(progress))).toEqual({ progress, status: 'OK', problems: [] });
+  });
+
+  it('has a migration for every older version', () => {
+    expect(PROGRESS_MIGRATIONS).toHaveLength(PROGRESS_SCHEMA_VERSION);
+  });
+});
+
+describe('readProgress', () => {
+  it('leaves bare progress that is already current as it is', () => {
+    const progress = {
+      ...createEmptyProgress(),
+      streakDays: 4,
+      streakFreezes: 1,
+      lastStudyDate: '2024-05-12',
+      history: [{ date: '2024-05-10', type: 'CYCLE' as const, plantIds: ['p1'] }]
+    };
+    expect(readProgress(progress)).toEqual({ progress, status: 'MIGRATED', problems: [] });
+  });
+
+  it('migrates bare progress from an old backup', () => {
+    const old = { plantsStudiedCount: 1, lastStudyDate: null, streakDays: 1, quizTotalQuestions: 0, quizCorrectAnswers: 0,
+      history: [{ date: '2024-05-10', type: 'CYCLE', plantIds: ['p1'] }] };
+    expect(readProgress(old).progress).toMatchObject({ lastStudyDate: '2024-05-10', streakFreezes: 0, reviews: {}, answers: [] });
+  });
+});
@@ -0,0 +1,203 @@
+import { PlantReview, QuizAnswerRecord, ReviewGrade, StudySession, UserProgress } from './types';
+import { REVIEW_GRADES } from './srs';
+
+// --- Progress Storage (versioned, with ordered migrations) ---
+
+// Saved as { version, savedAt, data }; saves from before versioning are the bare progress (version 0)
+export const PROGRESS_SCHEMA_VERSION = 2;
+
+interface ProgressEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+export type ProgressLoadStatus =
+  | 'EMPTY' // nothing stored yet
+  | 'OK'
+  | 'MIGRATED' // upgraded from an older schema
+  | 'REPAIRED' // invalid fields were dropped or reset
+  | 'RESET'; // unreadable, started over from defaults
+
+export interface ProgressLoadResult {
+  progress: UserProgress;
+  status: ProgressLoadStatus;
+  problems: string[];
+}
+
+export const createEmptyProgress = (): UserProgress => ({
+  plantsStudiedCount: 0,
+  lastStudyDate: null,
+  streakDays: 0,
+  streakFreezes: 0,
+  quizTotalQuestions: 0,
+  quizCorrectAnswers: 0,
+  history: [],
+  reviews: {},
+  answers: []
+});
+
+type RawProgress = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Validation and repair ---
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isSession = (value: unknown): value is StudySession =>
+  isObject(value) &&
+  typeof value.date === 'string' && DATE_KEY.test(value.date) &&
+  (value.type === 'CYCLE' || value.type === 'QUIZ') &&
+  (value.score === undefined || isCount(value.score)) &&
+  (value.points === undefined || isCount(value.points)) &&
+  (value.plantIds === undefined || (Array.isArray(value.plantIds) && value.plantIds.every(id => typeof id === 'string'))) &&
+  (value.grades === undefined || (isObject(value.grades) && Object.values(value.grades).every(grade => REVIEW_GRADES.includes(grade as ReviewGrade))));
+
+const isReview = (value: unknown): value is PlantReview =>
+  isObject(value) &&
+  typeof value.plantId === 'string' &&
+  isCount(value.ease) && isCount(value.intervalDays) && isCount(value.repetitions) && isCount(value.lapses) &&
+  typeof value.dueDate === 'string' && DATE_KEY.test(value.dueDate) &&
+  (value.lastReviewedDate === null || typeof value.lastReviewedDate === 'string');
+
+const isAnswer = (value: unknown): value is QuizAnswerRecord =>
+  isObject(value) &&
+  typeof value.plantId === 'string' &&
+  typeof value.questionType === 'string' &&
+  typeof value.chosenOption === 'string' &&
+  typeof value.correctAnswer === 'string' &&
+  typeof value.isCorrect === 'boolean' &&
+  typeof value.timestamp === 'string';
+
+/**
+ * Keeps every valid part of a (possibly hand-edited or half-written) progress and
+ * resets the rest to defaults, listing what had to be fixed.
+ */
+export const repairProgress = (raw: unknown): { progress: UserProgress; problems: string[] } => {
+  const problems: string[] = [];
+  if (!isObject(raw)) return { progress: createEmptyProgress(), problems: ['progress is not an object'] };
+
+  const defaults = createEmptyProgress();
+  const count = (field: 'plantsStudiedCount' | 'streakDays' | 'streakFreezes' | 'quizTotalQuestions' | 'quizCorrectAnswers') => {
+    if (isCount(raw[field])) return raw[field] as number;
+    problems.push(`${field} reset`);
+    return defaults[field];
+  };
+  const list = <T>(field: 'history' | 'answers', isValid: (item: unknown) => item is T): T[] => {
+    const value = raw[field];
+    if (!Array.isArray(value)) {
+      problems.push(`${field} reset`);
+      return [];
+    }
+    const valid = value.filter(isValid);
+    if (valid.length < value.length) problems.push(`${value.length - valid.length} invalid ${field} entries dropped`);
+    return valid;
+  };
+
+  let lastStudyDate: string | null = null;
+  if (typeof raw.lastStudyDate === 'string' && DATE_KEY.test(raw.lastStudyDate)) lastStudyDate = raw.lastStudyDate;
+  else if (raw.lastStudyDate !== null) problems.push('lastStudyDate reset');
+
+  const reviews: Record<string, PlantReview> = {};
+  if (isObject(raw.reviews)) {
+    Object.entries(raw.reviews).forEach(([plantId, review]) => {
+      if (isReview(review) && review.plantId === plantId) reviews[plantId] = review;
+      else problems.push(`invalid review for plant ${plantId} dropped`);
+    });
+  } else {
+    problems.push('reviews reset');
+  }
+
+  const progress: UserProgress = {
+    plantsStudiedCount: count('plantsStudiedCount'),
+    lastStudyDate,
+    streakDays: count('streakDays'),
+    streakFreezes: count('streakFreezes'),
+    quizTotalQuestions: count('quizTotalQuestions'),
+    quizCorrectAnswers: count('quizCorrectAnswers'),
+    history: list('history', isSession),
+    reviews,
+    answers: list('answers', isAnswer)
+  };
+  return { progress, problems };
+};
+
+// --- Migrations ---
+
+// Ordered upgrades; index N upgrades data saved with schema version N to N+1.
+// A step never assumes the shape the previous version should have had: a hand-edited or
+// half-written save reaches it as is, and whatever is still wrong is left to repairProgress.
+export const PROGRESS_MIGRATIONS: ((data: RawProgress) => RawProgress)[] = [
+  // v0 -> v1: spaced-repetition reviews and the quiz answer log were added after the first release
+  data => ({
+    ...data,
+    history: Array.isArray(data.history) ? data.history : [],
+    reviews: isObject(data.reviews) ? data.reviews : {},
+    answers: Array.isArray(data.answers) ? data.answers : []
+  }),
+  // v1 -> v2: streak freezes, and quizzes now count as study days
+  data => {
+    const sessionDates = (Array.isArray(data.history) ? data.history : [])
+      .map(session => (isObject(session) ? session.date : undefined))
+      .filter((date): date is string => typeof date === 'string' && DATE_KEY.test(date));
+    const storedDate = typeof data.lastStudyDate === 'string' && DATE_KEY.test(data.lastStudyDate) ? data.lastStudyDate : '';
+    const lastStudyDate = [storedDate, ...sessionDates].reduce((latest, date) => (date > latest ? date : latest), '');
+    return { ...data, streakFreezes: isCount(data.streakFreezes) ? data.streakFreezes : 0, lastStudyDate: lastStudyDate || null };
+  }
+];
+
+// --- Reading and writing ---
+
+const isEnvelope = (value: unknown): value is ProgressEnvelope =>
+  isObject(value) && typeof value.version === 'number' && 'data' in value;
+
+export const parseStoredProgress = (stored: string | null): ProgressLoadResult => {
+  if (stored === null) return { progress: createEmptyProgress(), status: 'EMPTY', problems: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    return { progress: createEmptyProgress(), status: 'RESET', problems: ['stored progress is not valid JSON'] };
+  }
+  return readProgress(parsed);
+};
+
+/**
+ * Migrates and repairs progress that is already parsed: an envelope, or the bare progress
+ * kept in backups and in saves from before versioning. Bare progress goes through every
+ * migration, which leaves data that is already current as it is.
+ */
+export const readProgress = (parsed: unknown): ProgressLoadResult => {
+  const version = isEnvelope(parsed) ? parsed.version : 0;
+  let data = isEnvelope(parsed) ? parsed.data : parsed;
+  if (!isObject(data) || !Number.isInteger(version) || version < 0) {
+    return { progress: createEmptyProgress(), status: 'RESET', problems: ['stored progress has an unknown layout'] };
+  }
+
+  // Saves from a newer app version have no migration to run; what we understand is kept.
+  // A step that still fails leaves the data as far as it got, and repair keeps what is valid.
+  const migrationProblems: string[] = [];
+  for (let v = version; v < PROGRESS_SCHEMA_VERSION; v++) {
+    try {
+      data = PROGRESS_MIGRATIONS[v](data as RawProgress);
+    } catch {
+      migrationProblems.push(`migration from version ${v} failed`);
+      break;
+    }
+  }
+
+  const { progress, problems: repairProblems } = repairProgress(data);
+  const problems = [...migrationProblems, ...repairProblems];
+  const status: ProgressLoadStatus = problems.length > 0 ? 'REPAIRED' : version < PROGRESS_SCHEMA_VERSION ? 'MIGRATED' : 'OK';
+  return { progress, status, problems };
+};
+
+export const serializeProgress = (progress: UserProgress): string => {
+  const envelope: ProgressEnvelope = { version: PROGRESS_SCHEMA_VERSION, savedAt: new Date().toISOString(), data: progress };
+  return JSON.stringify(envelope);
+};
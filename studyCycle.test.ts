@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { LightRequirement, Plant } from './types';
+import {
+  SavedCycle, clampCycleSettings, createTimer, formatCountdown, getCardFront, getRemainingMs, isTimerPaused,
+  keepAvailablePlants, parseSavedCycle, pauseTimer, resumeTimer, summarizeCycle
+} from './studyCycle';
+
+const MINUTE = 60 * 1000;
+const START = 1_700_000_000_000;
+
+const cycle = (fields: Partial<SavedCycle> = {}): SavedCycle => ({
+  presetId: 'QUICK',
+  plantIds: ['a', 'b', 'c'],
+  currentIndex: 1,
+  ratings: { a: 'GOOD' },
+  timer: createTimer(3, START),
+  startedAt: '2024-05-10T12:00:00.000Z',
+  ...fields
+});
+
+describe('clampCycleSettings', () => {
+  it('keeps custom settings within the limits, in whole numbers', () => {
+    expect(clampCycleSettings({ minutes: 0, plantCount: 100 })).toEqual({ minutes: 1, plantCount: 30 });
+    expect(clampCycleSettings({ minutes: 7.6, plantCount: 4.2 })).toEqual({ minutes: 8, plantCount: 4 });
+    expect(clampCycleSettings({ minutes: NaN, plantCount: -3 })).toEqual({ minutes: 1, plantCount: 1 });
+  });
+});
+
+describe('cycle timer', () => {
+  it('counts down from the start', () => {
+    const timer = createTimer(3, START);
+    expect(getRemainingMs(timer, START)).toBe(3 * MINUTE);
+    expect(getRemainingMs(timer, START + MINUTE)).toBe(2 * MINUTE);
+    expect(getRemainingMs(timer, START + 10 * MINUTE)).toBe(0);
+  });
+
+  it('stops while paused and goes on from there when resumed', () => {
+    const paused = pauseTimer(createTimer(3, START), START + MINUTE);
+    expect(isTimerPaused(paused)).toBe(true);
+    expect(getRemainingMs(paused, START + 30 * MINUTE)).toBe(2 * MINUTE);
+
+    const resumed = resumeTimer(paused, START + 30 * MINUTE);
+    expect(isTimerPaused(resumed)).toBe(false);
+    expect(getRemainingMs(resumed, START + 30.5 * MINUTE)).toBe(1.5 * MINUTE);
+  });
+
+  it('ignores a pause or resume that changes nothing', () => {
+    const running = createTimer(3, START);
+    expect(resumeTimer(running, START + MINUTE)).toBe(running);
+    const paused = pauseTimer(running, START + MINUTE);
+    expect(pauseTimer(paused, START + 2 * MINUTE)).toBe(paused);
+  });
+
+  it('never gives time back when the clock goes backwards', () => {
+    expect(getRemainingMs(createTimer(3, START), START - 5 * MINUTE)).toBe(3 * MINUTE);
+  });
+});
+
+describe('parseSavedCycle', () => {
+  it('reads back a saved cycle', () => {
+    expect(parseSavedCycle(JSON.stringify(cycle()))).toEqual(cycle());
+  });
+
+  it('treats anything unreadable as no saved cycle', () => {
+    expect(parseSavedCycle(null)).toBeNull();
+    expect(parseSavedCycle('{not json')).toBeNull();
+    expect(parseSavedCycle(JSON.stringify({ ...cycle(), plantIds: [] }))).toBeNull();
+    expect(parseSavedCycle(JSON.stringify({ ...cycle(), ratings: { a: 'GREAT' } }))).toBeNull();
+    expect(parseSavedCycle(JSON.stringify({ ...cycle(), timer: { durationMs: -1, elapsedMs: 0, runningSince: null } }))).toBeNull();
+  });
+
+  it('keeps the current card within the list and unknown presets as custom', () => {
+    expect(parseSavedCycle(JSON.stringify({ ...cycle(), currentIndex: 9, presetId: 'OTHER' })))
+      .toMatchObject({ currentIndex: 2, presetId: 'CUSTOM' });
+  });
+});
+
+describe('keepAvailablePlants', () => {
+  it('skips removed plants and stays on the same card', () => {
+    expect(keepAvailablePlants(cycle({ currentIndex: 2 }), new Set(['b', 'c']))).toMatchObject({ plantIds: ['b', 'c'], currentIndex: 1 });
+  });
+
+  it('moves to the next card when the current one was removed', () => {
+    expect(keepAvailablePlants(cycle({ currentIndex: 1 }), new Set(['a', 'c']))).toMatchObject({ plantIds: ['a', 'c'], currentIndex: 1 });
+  });
+
+  it('is null when no plant is left', () => {
+    expect(keepAvailablePlants(cycle(), new Set())).toBeNull();
+  });
+});
+
+describe('getCardFront', () => {
+  const plant = (imageUrl: string): Plant => ({
+    id: 'a', commonName: 'Jiboia', scientificName: 'Epipremnum aureum', light: LightRequirement.SHADE, category: 'Folhagem', trivia: '', imageUrl
+  });
+
+  it('alternates photo and name for plants with a real photo', () => {
+    const withPhoto = plant('https://example.com/jiboia.jpg');
+    expect([0, 1, 2].map(index => getCardFront(withPhoto, index))).toEqual(['PHOTO', 'NAME', 'PHOTO']);
+  });
+
+  it('always starts from the name for a placeholder picture', () => {
+    expect(getCardFront(plant('https://picsum.photos/seed/1Jiboia/400/400'), 0)).toBe('NAME');
+  });
+});
+
+describe('summarizeCycle', () => {
+  it('splits graded and ungraded plants and counts the grades', () => {
+    const summary = summarizeCycle(cycle({ ratings: { c: 'AGAIN', a: 'GOOD' } }));
+    expect(summary.gradedIds).toEqual(['a', 'c']);
+    expect(summary.ungradedIds).toEqual(['b']);
+    expect(summary.countByGrade).toEqual({ AGAIN: 1, HARD: 0, GOOD: 1, EASY: 0 });
+  });
+});
+
+describe('formatCountdown', () => {
+  it('shows minutes and seconds, rounding up', () => {
+    expect(formatCountdown(3 * MINUTE)).toBe('3:00');
+    expect(formatCountdown(61_001)).toBe('1:02');
+    expect(formatCountdown(0)).toBe('0:00');
+  });
+});
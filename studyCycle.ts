@@ -0,0 +1,139 @@
+import { CyclePresetId, Plant, ReviewGrade } from './types';
+import { REVIEW_GRADES } from './srs';
+import { hasRealPhoto } from './photos';
+
+// --- Study Cycle (presets, timer and the cycle saved while in progress) ---
+
+export interface CycleSettings {
+  minutes: number;
+  plantCount: number;
+}
+
+export const CYCLE_PRESETS: Record<Exclude<CyclePresetId, 'CUSTOM'>, CycleSettings> = {
+  QUICK: { minutes: 3, plantCount: 2 },
+  BREAK: { minutes: 10, plantCount: 6 }
+};
+
+export const CUSTOM_CYCLE_LIMITS = {
+  minutes: { min: 1, max: 60 },
+  plantCount: { min: 1, max: 30 }
+};
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+  Math.min(max, Math.max(min, Math.round(Number.isFinite(value) ? value : min)));
+
+export const clampCycleSettings = (settings: CycleSettings): CycleSettings => ({
+  minutes: clamp(settings.minutes, CUSTOM_CYCLE_LIMITS.minutes),
+  plantCount: clamp(settings.plantCount, CUSTOM_CYCLE_LIMITS.plantCount)
+});
+
+// The time left comes from timestamps, not from counting ticks, so a sleeping tablet
+// or a throttled tab never makes the countdown drift
+export interface CycleTimer {
+  durationMs: number;
+  elapsedMs: number; // before the current run
+  runningSince: number | null; // epoch ms; null while paused
+}
+
+export const createTimer = (minutes: number, now: number): CycleTimer => ({
+  durationMs: minutes * 60 * 1000,
+  elapsedMs: 0,
+  runningSince: now
+});
+
+export const isTimerPaused = (timer: CycleTimer) => timer.runningSince === null;
+
+// A clock set backwards never gives time back
+export const getElapsedMs = (timer: CycleTimer, now: number) =>
+  timer.elapsedMs + (timer.runningSince === null ? 0 : Math.max(0, now - timer.runningSince));
+
+export const getRemainingMs = (timer: CycleTimer, now: number) =>
+  Math.max(0, timer.durationMs - getElapsedMs(timer, now));
+
+export const pauseTimer = (timer: CycleTimer, now: number): CycleTimer =>
+  timer.runningSince === null ? timer : { ...timer, elapsedMs: getElapsedMs(timer, now), runningSince: null };
+
+export const resumeTimer = (timer: CycleTimer, now: number): CycleTimer =>
+  timer.runningSince === null ? { ...timer, runningSince: now } : timer;
+
+// A cycle in progress, saved after every step so it can be picked up again later
+export interface SavedCycle {
+  presetId: CyclePresetId;
+  plantIds: string[];
+  currentIndex: number;
+  ratings: Record<string, ReviewGrade>;
+  timer: CycleTimer;
+  startedAt: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isTimer = (value: unknown): value is CycleTimer =>
+  isObject(value) && isCount(value.durationMs) && isCount(value.elapsedMs) &&
+  (value.runningSince === null || isCount(value.runningSince));
+
+// Anything unreadable is treated as no saved cycle
+export const parseSavedCycle = (stored: string | null): SavedCycle | null => {
+  if (!stored) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stored);
+  } catch {
+    return null;
+  }
+  if (
+    !isObject(raw) ||
+    !Array.isArray(raw.plantIds) || raw.plantIds.length === 0 || !raw.plantIds.every(id => typeof id === 'string') ||
+    !Number.isInteger(raw.currentIndex) || !isCount(raw.currentIndex) ||
+    !isObject(raw.ratings) || !Object.values(raw.ratings).every(grade => REVIEW_GRADES.includes(grade as ReviewGrade)) ||
+    !isTimer(raw.timer)
+  ) {
+    return null;
+  }
+  return {
+    presetId: raw.presetId === 'QUICK' || raw.presetId === 'BREAK' ? raw.presetId : 'CUSTOM',
+    plantIds: raw.plantIds,
+    currentIndex: Math.min(raw.currentIndex as number, raw.plantIds.length - 1),
+    ratings: raw.ratings as Record<string, ReviewGrade>,
+    timer: raw.timer,
+    startedAt: typeof raw.startedAt === 'string' ? raw.startedAt : ''
+  };
+};
+
+// Plants removed from the catalog since the cycle was saved are skipped
+export const keepAvailablePlants = (cycle: SavedCycle, availableIds: Set<string>): SavedCycle | null => {
+  const plantIds = cycle.plantIds.filter(id => availableIds.has(id));
+  if (plantIds.length === 0) return null;
+  const keptBefore = cycle.plantIds.slice(0, cycle.currentIndex).filter(id => availableIds.has(id)).length;
+  return { ...cycle, plantIds, currentIndex: Math.min(keptBefore, plantIds.length - 1) };
+};
+
+export type CardFront = 'PHOTO' | 'NAME';
+
+// Flashcards alternate between asking from the photo and from the name; plants without
+// a real photo always start from the name
+export const getCardFront = (plant: Plant, index: number): CardFront =>
+  index % 2 === 0 && hasRealPhoto(plant) ? 'PHOTO' : 'NAME';
+
+export interface CycleSummary {
+  gradedIds: string[]; // in the order they were shown
+  ungradedIds: string[]; // skipped, or not reached before the time ran out
+  countByGrade: Record<ReviewGrade, number>;
+}
+
+export const summarizeCycle = (cycle: SavedCycle): CycleSummary => {
+  const gradedIds = cycle.plantIds.filter(id => cycle.ratings[id]);
+  const countByGrade = Object.fromEntries(REVIEW_GRADES.map(grade => [grade, 0])) as Record<ReviewGrade, number>;
+  gradedIds.forEach(id => countByGrade[cycle.ratings[id]]++);
+  return { gradedIds, ungradedIds: cycle.plantIds.filter(id => !cycle.ratings[id]), countByGrade };
+};
+
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const m = Math.floor(totalSeconds / 60);
+  const s = totalSeconds % 60;
+  return `${m}:${s < 10 ? '0' : ''}${s}`;
+};
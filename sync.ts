@@ -0,0 +1,123 @@
+import { StudySession } from './types';
+
+// --- Score Sync (leaderboard backend) ---
+
+// What a device sends for one profile; each upload replaces the previous one on the server
+export interface ScoreUpload {
+  userId: string;
+  name: string;
+  sessions: StudySession[];
+  uploadedAt: string;
+}
+
+export interface LeaderboardEntry {
+  userId: string;
+  name: string;
+  points: number;
+  rank: number;
+}
+
+export interface WeeklyLeaderboard {
+  weekStart: string; // Monday, YYYY-MM-DD
+  entries: LeaderboardEntry[];
+}
+
+// Anything that can store uploads and compute rankings; the app only talks to this interface
+export interface SyncBackend {
+  uploadScores: (upload: ScoreUpload) => Promise<void>;
+  fetchWeeklyLeaderboard: (today: string) => Promise<WeeklyLeaderboard>;
+}
+
+export const createHttpSyncBackend = (baseUrl: string, fetchImpl: typeof fetch = fetch.bind(globalThis)): SyncBackend => {
+  const url = (path: string) => `${baseUrl.replace(/\/+$/, '')}${path}`;
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetchImpl(url(path), {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+    if (!response.ok) throw new Error(`Sync request ${path} failed with status ${response.status}`);
+    return response;
+  };
+
+  return {
+    uploadScores: async upload => {
+      await request('/api/scores', { method: 'POST', body: JSON.stringify(upload) });
+    },
+    // The device's calendar day decides the week, not the server clock
+    fetchWeeklyLeaderboard: async today => (await request(`/api/leaderboard/weekly?week=${encodeURIComponent(today)}`)).json()
+  };
+};
+
+// --- Offline Queue ---
+
+const SYNC_QUEUE_KEY = 'oliveira_garden_sync_queue_v1';
+const LEADERBOARD_CACHE_KEY = 'oliveira_garden_leaderboard_cache_v1';
+
+// A damaged queue is dropped: the next saved session queues the whole history again
+export const getPendingUploads = (): ScoreUpload[] => {
+  const stored = localStorage.getItem(SYNC_QUEUE_KEY);
+  if (!stored) return [];
+  try {
+    const uploads = JSON.parse(stored);
+    return Array.isArray(uploads) ? uploads : [];
+  } catch (e) {
+    console.warn('Ignoring unreadable sync queue', e);
+    return [];
+  }
+};
+
+const savePendingUploads = (uploads: ScoreUpload[]) => {
+  localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(uploads));
+};
+
+// Only the newest upload per profile matters, so older pending ones are dropped
+export const enqueueUpload = (upload: ScoreUpload) => {
+  savePendingUploads([...getPendingUploads().filter(u => u.userId !== upload.userId), upload]);
+};
+
+let isFlushing = false;
+
+/**
+ * Sends every pending upload in order and keeps whatever failed (e.g. the store
+ * Wi-Fi dropped) for the next attempt. Returns how many uploads are still pending.
+ */
+export const flushSyncQueue = async (backend: SyncBackend): Promise<number> => {
+  if (isFlushing) return getPendingUploads().length;
+  isFlushing = true;
+  try {
+    for (const upload of getPendingUploads()) {
+      await backend.uploadScores(upload);
+      // Re-read: the consultant may have queued a newer upload while this one was in flight
+      savePendingUploads(getPendingUploads().filter(u => u.userId !== upload.userId || u.uploadedAt !== upload.uploadedAt));
+    }
+  } catch (e) {
+    console.warn('Sync paused, uploads stay queued', e);
+  } finally {
+    isFlushing = false;
+  }
+  return getPendingUploads().length;
+};
+
+// The last ranking received, shown while offline
+export const getCachedLeaderboard = (): WeeklyLeaderboard | null => {
+  const stored = localStorage.getItem(LEADERBOARD_CACHE_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.warn('Ignoring unreadable cached leaderboard', e);
+    return null;
+  }
+};
+
+export const fetchLeaderboardWithCache = async (backend: SyncBackend, today: string): Promise<{ leaderboard: WeeklyLeaderboard | null; isOffline: boolean }> => {
+  try {
+    const leaderboard = await backend.fetchWeeklyLeaderboard(today);
+    localStorage.setItem(LEADERBOARD_CACHE_KEY, JSON.stringify(leaderboard));
+    return { leaderboard, isOffline: false };
+  } catch (e) {
+    console.warn('Could not load the leaderboard', e);
+    return { leaderboard: getCachedLeaderboard(), isOffline: true };
+  }
+};
@@ -4,36 +4,162 @@ export enum LightRequirement {
   SHADE = "Sombra"
 }
 
-export interface Plant {
+export enum WateringFrequency {
+  HIGH = "Frequente (manter o solo úmido)",
+  MEDIUM = "Moderada (quando o topo do solo secar)",
+  LOW = "Espaçada (deixar o solo secar)",
+  VERY_LOW = "Rara (a cada 15 dias ou mais)"
+}
+
+export enum Toxicity {
+  SAFE = "Atóxica",
+  IRRITANT = "Irritante se ingerida",
+  TOXIC = "Tóxica para pets e crianças"
+}
+
+export enum PlantEnvironment {
+  INDOOR = "Ambiente interno",
+  OUTDOOR = "Área externa",
+  BOTH = "Interno ou externo"
+}
+
+// Care guide for customer questions; built-in plants have all of it, plants added in the editor may not
+export interface PlantCare {
+  watering?: WateringFrequency;
+  toxicity?: Toxicity; // for pets and children
+  environment?: PlantEnvironment;
+  matureSize?: string; // e.g. "40 a 60 cm"
+  floweringSeason?: string; // or why it doesn't flower, e.g. "Conífera: não floresce"
+  soil?: string;
+  fertilizing?: string;
+}
+
+export interface Plant extends PlantCare {
   id: string;
   commonName: string;
   scientificName: string;
   light: LightRequirement;
   category: string;
   trivia: string;
-  imageUrl: string;
+  imageUrl: string; // thumbnail of the first photo taken in the app, or the catalog picture
+  photos?: PlantPhotoThumbnail[]; // every photo taken in the app, oldest first
+}
+
+export type PhotoLabel = 'GERAL' | 'FLOR' | 'FOLHA' | 'MUDA' | 'FRUTO';
+
+// A photo taken in the app; a plant can have several (in flower, leaves only, seedling...)
+export interface PlantPhotoInfo {
+  id: string;
+  plantId: string;
+  label: PhotoLabel;
+  createdAt: string;
+}
+
+// Screens get the small version right away; the full image is read from IndexedDB when shown
+export interface PlantPhotoThumbnail extends PlantPhotoInfo {
+  thumbnailUrl: string;
+}
+
+// How photos travel in backup files
+export interface PlantPhoto extends PlantPhotoInfo {
+  dataUrl: string;
+}
+
+// A plant added or edited in the catalog editor, stored in IndexedDB
+export interface CatalogRecord {
+  plant: Plant;
+  isCustom: boolean; // false when it overrides a built-in PLANT_DATABASE entry
+  retired: boolean;
+  updatedAt: string;
+}
+
+export interface CatalogItem {
+  plant: Plant; // catalog data, without custom photo overrides
+  isCustom: boolean;
+  isEdited: boolean;
+  retired: boolean;
+}
+
+// A consultant sharing the store tablet; progress is stored separately for each one
+export interface UserProfile {
+  id: string;
+  name: string;
+  pinHash: string | null; // "<algorithm>:<hash>" of the optional PIN
+  createdAt: string;
 }
 
 export interface UserProgress {
   plantsStudiedCount: number;
   lastStudyDate: string | null;
   streakDays: number;
+  streakFreezes: number; // earned by long streaks, each one covers a missed day
   quizTotalQuestions: number;
   quizCorrectAnswers: number;
   history: StudySession[];
+  reviews: Record<string, PlantReview>;
+  answers: QuizAnswerRecord[];
+}
+
+export type ReviewGrade = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
+
+// Spaced-repetition state for a single plant (SM-2 style)
+export interface PlantReview {
+  plantId: string;
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueDate: string;
+  lastReviewedDate: string | null;
 }
 
 export interface StudySession {
   date: string;
   type: 'CYCLE' | 'QUIZ';
-  score?: number;
+  score?: number; // quizzes: answers fully right
+  points?: number; // quizzes: the score plus half a point for each almost right typed answer
+  plantIds?: string[];
+  grades?: Record<string, ReviewGrade>; // cycles: how well each plant was recalled
+}
+
+// One answered quiz question, kept so we can tell which plants a consultant misses
+export interface QuizAnswerRecord {
+  plantId: string;
+  questionType: QuizQuestionType;
+  chosenOption: string;
+  correctAnswer: string;
+  isCorrect: boolean;
+  credit?: number; // partial credit for typed answers, 0-1
+  timestamp: string;
 }
 
+export type QuizQuestionType =
+  | 'SCIENTIFIC_TO_COMMON'
+  | 'COMMON_TO_SCIENTIFIC'
+  | 'COMMON_TO_LIGHT'
+  | 'COMMON_TO_CATEGORY'
+  | 'PHOTO_TO_COMMON'
+  | 'PHOTO_TO_LIGHT'
+  | 'TRIVIA_TO_COMMON'
+  | 'COMMON_TO_WATERING'
+  | 'COMMON_TO_TOXICITY'
+  | 'COMMON_TO_ENVIRONMENT';
+
+export type CyclePresetId = 'QUICK' | 'BREAK' | 'CUSTOM';
+
+export type QuizDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export type QuizAnswerMode = 'CHOICE' | 'TYPED';
+
 export interface QuizQuestion {
   id: number;
-  type: 'SCIENTIFIC_TO_COMMON' | 'COMMON_TO_LIGHT' | 'PHOTO_TO_COMMON';
+  plantId: string;
+  type: QuizQuestionType;
   questionText: string;
+  supportingText?: string; // e.g. the trivia sentence for TRIVIA_TO_COMMON
   imageUrl?: string;
+  photoId?: string; // photo taken in the app, whose full-size image replaces imageUrl once loaded
   options: string[];
   correctAnswer: string;
+  answerMode?: QuizAnswerMode; // defaults to multiple choice
 }
\ No newline at end of file
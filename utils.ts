@@ -0,0 +1,29 @@
+// Fisher-Yates shuffle; `random` is injectable so callers can be deterministic
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export type HashAlgorithm = 'SHA-256' | 'FNV-1a';
+
+// crypto.subtle only exists on https/localhost; store tablets opened over plain http fall back to FNV-1a
+export const canUseSha256 = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const hashText = async (text: string, algorithm: HashAlgorithm): Promise<string> => {
+  if (algorithm === 'FNV-1a') return fnv1a(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
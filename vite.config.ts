@@ -1,7 +1,21 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest" />
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Lists every built file so the service worker (public/sw.js) can precache the app for offline use
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    // Every browser that runs service workers reads woff2, so the .woff font fallbacks are skipped
+    const files = Object.keys(bundle).filter(file => !/\.(map|woff)$/.test(file)).map(file => `./${file}`)
+    this.emitFile({ type: 'asset', fileName: 'precache-manifest.json', source: JSON.stringify(files) })
+  },
+})
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
-})
\ No newline at end of file
+  plugins: [react(), precacheManifest()],
+  // Separate processes, so a test can switch process.env.TZ to check day keys around DST
+  test: { pool: 'forks' },
+})